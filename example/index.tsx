@@ -11,6 +11,7 @@ import { createContext, setContext, useContext } from "abret/store";
 
 // Abret uses exact path matching. You can manually handle trailing slashes using catch-all routes.
 
+import { logger, requestId } from "../src/middleware/logger";
 import { transpiler } from "../src/middleware/transpiler";
 
 // ============================================================================
@@ -22,25 +23,8 @@ const CurrentUserContext = createContext<{ name: string; role: string }>(
   "currentUser",
 );
 
-// Middleware: Logger
-const logger = createMiddleware((req, _server, next) => {
-  const start = performance.now();
-  console.log(`[${req.method}] ${req.url}`);
-  const res = next();
-
-  // Handle async response to log duration
-  if (res instanceof Promise) {
-    return res.then((r) => {
-      const duration = (performance.now() - start).toFixed(2);
-      console.log(`  -> ${r.status} (${duration}ms)`);
-      return r;
-    });
-  }
-
-  const duration = (performance.now() - start).toFixed(2);
-  console.log(`  -> ${res.status} (${duration}ms)`);
-  return res;
-});
+// Middleware: Request IDs and JSON-lines logging (see LoggerContext)
+const logging = composeMiddlewares(requestId(), logger());
 
 // Middleware: Fake Auth (adds user to context)
 const auth = createMiddleware((req, _server, next) => {
@@ -127,7 +111,7 @@ function UserBadge() {
 // ============================================================================
 
 // Global middleware
-const appMiddleware = composeMiddlewares(logger, auth);
+const appMiddleware = composeMiddlewares(logging, auth);
 
 // -- Home Route --
 const home = createRoute(
@@ -9,8 +9,19 @@ const buildResult = await Bun.build({
     "./src/index.ts",
     "./src/store.ts",
     "./src/html.ts",
+    "./src/openapi.ts",
+    "./src/client.ts",
+    "./src/testing.ts",
     "./src/jsx/jsx-runtime.ts",
     "./src/jsx/jsx-dev-runtime.ts",
+    "./src/middleware/body/index.ts",
+    "./src/middleware/compress/index.ts",
+    "./src/middleware/cors/index.ts",
+    "./src/middleware/csrf/index.ts",
+    "./src/middleware/etag/index.ts",
+    "./src/middleware/logger/index.ts",
+    "./src/middleware/rate-limit/index.ts",
+    "./src/middleware/session/index.ts",
     "./src/middleware/static/index.ts",
     "./src/middleware/transpiler/index.ts",
   ],
@@ -0,0 +1,87 @@
+// Parsed request body shared by bodyParser and the middleware reading it
+// Kept apart from abret/middleware/body so core modules don't load its Node imports
+
+import { createContext } from "./store";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Body formats understood by bodyParser
+ */
+export type BodyType = "json" | "urlencoded" | "multipart" | "text";
+
+/**
+ * A file part of a multipart body
+ */
+export interface UploadedFile {
+  /** File name sent by the client */
+  filename: string;
+  /** Content-Type of the part */
+  type: string;
+  /** Size in bytes */
+  size: number;
+  /**
+   * Temp file holding the content of parts above `fileThreshold`.
+   * Deleted once the response body was delivered and the `after` hooks
+   * finished, move or copy it to keep it.
+   */
+  path?: string;
+  /** The content, in memory or backed by the temp file */
+  file: Blob;
+}
+
+/**
+ * A value of a multipart body
+ */
+export type FormValue = string | UploadedFile;
+
+/**
+ * Parsed request body, by format. Repeated form keys become arrays.
+ */
+export type ParsedBody<Json = unknown> =
+  | { type: "json"; data: Json }
+  | { type: "urlencoded"; data: Record<string, string | string[]> }
+  | { type: "multipart"; data: Record<string, FormValue | FormValue[]> }
+  | { type: "text"; data: string };
+
+// ============================================================================
+// Context
+// ============================================================================
+
+/**
+ * Body parsed by bodyParser
+ */
+export const BodyContext = createContext<ParsedBody, "abret-body">(
+  "abret-body",
+);
+
+// ============================================================================
+// Accepted Formats
+// ============================================================================
+
+/**
+ * Formats accepted by the bodyParser middlewares created so far,
+ * read by the OpenAPI generator
+ * @internal
+ */
+const acceptedBodyTypes = new WeakMap<object, BodyType[]>();
+
+/**
+ * Records the formats a bodyParser middleware accepts
+ * @internal
+ */
+export const setAcceptedBodyTypes = (
+  middleware: object,
+  types: BodyType[],
+): void => {
+  acceptedBodyTypes.set(middleware, types);
+};
+
+/**
+ * Gets the formats accepted by a bodyParser middleware, if it is one
+ * @internal
+ */
+export const getAcceptedBodyTypes = (fn: unknown): BodyType[] | undefined =>
+  typeof fn === "function" ? acceptedBodyTypes.get(fn) : undefined;
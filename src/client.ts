@@ -0,0 +1,218 @@
+// abret/client - Typed fetch client inferred from route types
+// Only imports types from the server modules, so it can be bundled for browsers
+
+import type {
+  InferRouteSchemas,
+  QueryParams,
+  RouteObject,
+  RouteParams,
+} from ".";
+import { buildQuery, fillPath } from "./url";
+import type {
+  InferSchemaInput,
+  InferSchemaOutput,
+  StandardSchemaV1,
+} from "./validation";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * HTTP methods callable through the client
+ */
+export type ClientMethod = Bun.Serve.HTTPMethod;
+
+/**
+ * Response returned by client calls, with `json()` typed from the
+ * route's response schema
+ */
+export interface ClientResponse<T = unknown> extends Response {
+  json(): Promise<T>;
+}
+
+/**
+ * Options of a single client call.
+ * `params` is required when the path has parameters, `query` and `body`
+ * are typed (and required) when the route has a schema for them.
+ */
+export type ClientRequestOptions<P extends string, Schemas = unknown> = Omit<
+  RequestInit,
+  "body" | "method"
+> &
+  (keyof RouteParams<P> extends never
+    ? { params?: undefined }
+    : { params: RouteParams<P> }) &
+  (Schemas extends { query: StandardSchemaV1 }
+    ? { query: InferSchemaInput<Schemas["query"]> }
+    : { query?: QueryParams }) &
+  (Schemas extends { body: StandardSchemaV1 }
+    ? { body: InferSchemaInput<Schemas["body"]> }
+    : { body?: unknown });
+
+/**
+ * A client call for one method of a route
+ */
+export type ClientCall<P extends string, Schemas = unknown> = (
+  ...args: Record<never, never> extends ClientRequestOptions<P, Schemas>
+    ? [options?: ClientRequestOptions<P, Schemas>]
+    : [options: ClientRequestOptions<P, Schemas>]
+) => Promise<
+  ClientResponse<
+    Schemas extends { response: StandardSchemaV1 }
+      ? InferSchemaOutput<Schemas["response"]>
+      : unknown
+  >
+>;
+
+/**
+ * Method schemas of a route value, falling back to its method keys
+ * (or every method) for routes without type information
+ * @internal
+ */
+type MethodSchemas<V> = [InferRouteSchemas<V>] extends [never]
+  ? [keyof V & ClientMethod] extends [never]
+    ? { ALL: unknown }
+    : { [M in keyof V & ClientMethod]: unknown }
+  : InferRouteSchemas<V>;
+
+/**
+ * Calls available for a route. Single-handler routes accept every method.
+ * @internal
+ */
+type ClientRoute<P extends string, Methods> = "ALL" extends keyof Methods
+  ? { [M in ClientMethod]: ClientCall<P, Methods["ALL"]> }
+  : { [M in keyof Methods & ClientMethod]: ClientCall<P, Methods[M]> };
+
+/**
+ * Typed client for a routes object, keyed by route path and method
+ */
+export type Client<R extends RouteObject> = {
+  [P in keyof R & string]: ClientRoute<P, MethodSchemas<R[P]>>;
+};
+
+/**
+ * Options for createClient
+ */
+export interface ClientOptions {
+  /**
+   * Fetch implementation, e.g. to add retries or for tests
+   * @default globalThis.fetch
+   */
+  fetch?: (input: string, init: RequestInit) => Promise<Response>;
+  /**
+   * Headers sent with every request, or a function computing them
+   */
+  headers?: HeadersInit | (() => HeadersInit | Promise<HeadersInit>);
+}
+
+// ============================================================================
+// Client
+// ============================================================================
+
+/**
+ * Checks whether a body can be passed to fetch as is
+ * @internal
+ */
+const isBodyInit = (body: unknown): body is BodyInit =>
+  typeof body === "string" ||
+  body instanceof Blob ||
+  body instanceof FormData ||
+  body instanceof URLSearchParams ||
+  body instanceof ArrayBuffer ||
+  ArrayBuffer.isView(body) ||
+  body instanceof ReadableStream;
+
+/**
+ * Creates a typed fetch client for the routes `R`. Only the type of the
+ * routes is needed, so browser code can `import type` them from the server.
+ * Paths and methods are checked, `:param` and `*` segments become required
+ * `params`, and schemas attached with `validate` or `withValidation`
+ * type the query, body and `json()` result.
+ *
+ * Bodies that fetch accepts (strings, FormData, Blob, ...) are sent as is,
+ * anything else as JSON.
+ *
+ * @example
+ * ```ts
+ * import type { routes } from "../server/routes";
+ * import { createClient } from "abret/client";
+ *
+ * const api = createClient<typeof routes>("https://api.example.com");
+ *
+ * const res = await api["/api/users/:id"].GET({ params: { id: 42 } });
+ * const user = await res.json(); // typed by the route's response schema
+ *
+ * await api["/api/users"].POST({ body: { name: "Ada" } });
+ * ```
+ */
+export const createClient = <R extends RouteObject>(
+  baseUrl: string | URL = "",
+  options: ClientOptions = {},
+): Client<R> => {
+  const base = String(baseUrl).replace(/\/$/, "");
+
+  const request = async (
+    path: string,
+    method: string,
+    callOptions: Record<string, unknown> = {},
+  ): Promise<Response> => {
+    const { params, query, body, headers, ...init } = callOptions as {
+      params?: Record<string, string | number>;
+      query?: QueryParams;
+      body?: unknown;
+      headers?: HeadersInit;
+    } & RequestInit;
+
+    const search = query ? buildQuery(query) : "";
+    const url = `${base}${fillPath(path, params)}${search ? `?${search}` : ""}`;
+
+    const defaultHeaders =
+      typeof options.headers === "function"
+        ? await options.headers()
+        : options.headers;
+    const requestHeaders = new Headers(defaultHeaders);
+    for (const [key, value] of new Headers(headers)) {
+      requestHeaders.set(key, value);
+    }
+
+    let requestBody: BodyInit | undefined;
+    if (body !== undefined) {
+      if (isBodyInit(body)) {
+        requestBody = body;
+      } else {
+        requestBody = JSON.stringify(body);
+        if (!requestHeaders.has("Content-Type")) {
+          requestHeaders.set("Content-Type", "application/json");
+        }
+      }
+    }
+
+    const fetchImpl = options.fetch ?? globalThis.fetch;
+    return fetchImpl(url, {
+      ...init,
+      method,
+      headers: requestHeaders,
+      body: requestBody,
+    });
+  };
+
+  // Only route paths resolve, so the client is not mistaken for a promise
+  return new Proxy({} as Client<R>, {
+    get: (_target, path) => {
+      if (typeof path !== "string" || !path.startsWith("/")) return undefined;
+      return new Proxy(
+        {},
+        {
+          get: (_route, method) => {
+            if (typeof method !== "string" || method !== method.toUpperCase()) {
+              return undefined;
+            }
+            return (callOptions?: Record<string, unknown>) =>
+              request(path, method, callOptions);
+          },
+        },
+      );
+    },
+  });
+};
@@ -0,0 +1,384 @@
+// Cookie helpers
+// Read request cookies and queue Set-Cookie headers from anywhere in the request's context scope
+
+import {
+  createCipheriv,
+  createDecipheriv,
+  createHmac,
+  hkdfSync,
+  randomBytes,
+  timingSafeEqual,
+} from "node:crypto";
+import type { Middleware } from ".";
+import { getResponseHooks, onResponse } from "./lifecycle";
+import { createContext, setContext, useContext } from "./store";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Attributes of a cookie. Cookies default to `Path=/` and `SameSite=Lax`.
+ */
+export type CookieOptions = Omit<Bun.CookieInit, "name" | "value">;
+
+/**
+ * Secrets used to sign or encrypt cookies. The first one signs and encrypts,
+ * all of them are tried when reading, so secrets can be rotated by adding
+ * the new one first.
+ */
+export type CookieSecrets = string | string[];
+
+/**
+ * Options for signed and encrypted cookies
+ */
+export interface SecretCookieOptions extends CookieOptions {
+  /**
+   * Secrets to use instead of the ones set by cookieSecrets
+   */
+  secrets?: CookieSecrets;
+}
+
+// ============================================================================
+// Cookie Jar
+// ============================================================================
+
+/**
+ * Cookies of a request, with the changes made while handling it
+ * @internal
+ */
+interface CookieJar {
+  cookies: Bun.CookieMap;
+  /** Whether a hook applying the changes is registered and yet to run */
+  queued: boolean;
+  /** Set-Cookie headers already added to the response */
+  applied: Set<string>;
+}
+
+/**
+ * Jars by request, created on first use
+ * @internal
+ */
+const jars = new WeakMap<Request, CookieJar>();
+
+/**
+ * Gets the cookie jar of the current request.
+ * With `write`, makes sure its changes are applied to the final response.
+ * @internal
+ */
+const useCookieJar = (caller: string, write = false): Bun.CookieMap => {
+  const hooks = getResponseHooks(caller);
+  let jar = jars.get(hooks.req);
+  if (!jar) {
+    jar = {
+      cookies: new Bun.CookieMap(hooks.req.headers.get("Cookie") ?? ""),
+      queued: false,
+      applied: new Set(),
+    };
+    jars.set(hooks.req, jar);
+  }
+
+  if (write) {
+    if (hooks.sent) {
+      throw new Error(`${caller} was called after the response was sent`);
+    }
+    // Changes made by later response hooks register another hook
+    if (!jar.queued) {
+      const current = jar;
+      current.queued = true;
+      onResponse((res) => {
+        current.queued = false;
+        for (const header of current.cookies.toSetCookieHeaders()) {
+          if (current.applied.has(header)) continue;
+          current.applied.add(header);
+          res.headers.append("Set-Cookie", header);
+        }
+      });
+    }
+  }
+  return jar.cookies;
+};
+
+// ============================================================================
+// Plain Cookies
+// ============================================================================
+
+/**
+ * Reads a cookie of the current request. Cookies set or deleted while
+ * handling it are reflected.
+ *
+ * @example
+ * ```ts
+ * const Layout = ({ children }) => {
+ *   const theme = getCookie("theme") ?? "light";
+ *   return <body class={theme}>{children}</body>;
+ * };
+ * ```
+ */
+export const getCookie = (name: string): string | undefined =>
+  useCookieJar("getCookie").get(name) ?? undefined;
+
+/**
+ * Queues a cookie on the response of the current request. It is applied to
+ * whatever response is finally returned, including error and HTML responses.
+ *
+ * @example
+ * ```ts
+ * const setTheme = (req) => {
+ *   setCookie("theme", "dark", { maxAge: 60 * 60 * 24 * 365 });
+ *   return Response.redirect("/settings", 303);
+ * };
+ * ```
+ */
+export const setCookie = (
+  name: string,
+  value: string,
+  options: CookieOptions = {},
+): void => {
+  useCookieJar("setCookie", true).set(name, value, options);
+};
+
+/**
+ * Queues the deletion of a cookie. `path` and `domain` must match the ones
+ * it was set with.
+ */
+export const deleteCookie = (
+  name: string,
+  options: Pick<CookieOptions, "path" | "domain"> = {},
+): void => {
+  useCookieJar("deleteCookie", true).delete({ name, ...options });
+};
+
+// ============================================================================
+// Secrets
+// ============================================================================
+
+/**
+ * Secrets configured by cookieSecrets
+ * @internal
+ */
+const CookieSecretsContext = createContext<string[], "abret-cookie-secrets">(
+  "abret-cookie-secrets",
+);
+
+/**
+ * Shortest accepted secret
+ * @internal
+ */
+const MIN_SECRET_LENGTH = 32;
+
+/**
+ * Normalizes and checks secrets
+ * @internal
+ */
+const toSecretList = (secrets: CookieSecrets): string[] => {
+  const list = Array.isArray(secrets) ? secrets : [secrets];
+  if (list.length === 0) {
+    throw new Error("At least one cookie secret is required");
+  }
+  for (const secret of list) {
+    if (secret.length < MIN_SECRET_LENGTH) {
+      throw new Error(
+        `Cookie secrets must be at least ${MIN_SECRET_LENGTH} characters long`,
+      );
+    }
+  }
+  return list;
+};
+
+/**
+ * Creates a middleware setting the secrets of signed and encrypted cookies.
+ * Put the newest secret first: it signs and encrypts, the others are only
+ * used to read cookies written before the rotation.
+ *
+ * @example
+ * ```ts
+ * const app = createApp({
+ *   middleware: [cookieSecrets([process.env.COOKIE_SECRET, process.env.OLD_COOKIE_SECRET])],
+ * });
+ * ```
+ */
+export const cookieSecrets = <P extends string = string, S = undefined>(
+  secrets: CookieSecrets,
+): Middleware<P, S> => {
+  const list = toSecretList(secrets);
+  return (_req, _server, next) => {
+    setContext(CookieSecretsContext, list);
+    return next();
+  };
+};
+
+/**
+ * Resolves the secrets of a call, from its options or the context
+ * @internal
+ */
+const useSecrets = (caller: string, secrets?: CookieSecrets): string[] => {
+  if (secrets !== undefined) return toSecretList(secrets);
+  const configured = useContext(CookieSecretsContext);
+  if (!configured) {
+    throw new Error(
+      `${caller} requires cookie secrets. ` +
+        "Add the cookieSecrets middleware or pass the secrets option.",
+    );
+  }
+  return configured;
+};
+
+// ============================================================================
+// Signed Cookies
+// ============================================================================
+
+/**
+ * Signs a cookie value, binding it to the cookie's name
+ * @internal
+ */
+const sign = (secret: string, name: string, value: string): Buffer =>
+  createHmac("sha256", secret).update(`${name}=${value}`).digest();
+
+/**
+ * Reads a signed cookie. Returns undefined when it is missing or its
+ * signature matches none of the secrets.
+ *
+ * @example
+ * ```ts
+ * const userId = getSignedCookie("uid");
+ * if (!userId) throw new HttpError(401);
+ * ```
+ */
+export const getSignedCookie = (
+  name: string,
+  options: Pick<SecretCookieOptions, "secrets"> = {},
+): string | undefined => {
+  const secrets = useSecrets("getSignedCookie", options.secrets);
+  const raw = getCookie(name);
+  if (raw === undefined) return undefined;
+
+  const separator = raw.lastIndexOf(".");
+  if (separator === -1) return undefined;
+  const value = raw.slice(0, separator);
+  const signature = Buffer.from(raw.slice(separator + 1), "base64url");
+
+  for (const secret of secrets) {
+    const expected = sign(secret, name, value);
+    if (
+      signature.length === expected.length &&
+      timingSafeEqual(signature, expected)
+    ) {
+      return value;
+    }
+  }
+  return undefined;
+};
+
+/**
+ * Queues a cookie whose value is readable by the client but signed with the
+ * first secret, so it can't be tampered with.
+ */
+export const setSignedCookie = (
+  name: string,
+  value: string,
+  options: SecretCookieOptions = {},
+): void => {
+  const { secrets, ...cookieOptions } = options;
+  const [secret] = useSecrets("setSignedCookie", secrets) as [string];
+  const signature = sign(secret, name, value).toString("base64url");
+  setCookie(name, `${value}.${signature}`, cookieOptions);
+};
+
+// ============================================================================
+// Encrypted Cookies
+// ============================================================================
+
+/**
+ * AES-256-GCM keys derived from secrets
+ * @internal
+ */
+const encryptionKeys = new Map<string, Buffer>();
+
+/**
+ * Derives the encryption key of a secret, distinct from its signing use
+ * @internal
+ */
+const encryptionKey = (secret: string): Buffer => {
+  let key = encryptionKeys.get(secret);
+  if (!key) {
+    key = Buffer.from(
+      hkdfSync("sha256", secret, "", "abret-cookie-encryption", 32),
+    );
+    encryptionKeys.set(secret, key);
+  }
+  return key;
+};
+
+/**
+ * IV and authentication tag sizes of AES-256-GCM
+ * @internal
+ */
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+
+/**
+ * Reads an encrypted cookie. Returns undefined when it is missing or can't
+ * be decrypted with any of the secrets.
+ */
+export const getEncryptedCookie = (
+  name: string,
+  options: Pick<SecretCookieOptions, "secrets"> = {},
+): string | undefined => {
+  const secrets = useSecrets("getEncryptedCookie", options.secrets);
+  const raw = getCookie(name);
+  if (raw === undefined) return undefined;
+
+  const payload = Buffer.from(raw, "base64url");
+  if (payload.length < IV_LENGTH + TAG_LENGTH) return undefined;
+  const iv = payload.subarray(0, IV_LENGTH);
+  const tag = payload.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH);
+  const ciphertext = payload.subarray(IV_LENGTH + TAG_LENGTH);
+
+  for (const secret of secrets) {
+    try {
+      const decipher = createDecipheriv(
+        "aes-256-gcm",
+        encryptionKey(secret),
+        iv,
+      );
+      decipher.setAAD(Buffer.from(name));
+      decipher.setAuthTag(tag);
+      return Buffer.concat([
+        decipher.update(ciphertext),
+        decipher.final(),
+      ]).toString("utf8");
+    } catch {
+      // Wrong secret or tampered value, try the next secret
+    }
+  }
+  return undefined;
+};
+
+/**
+ * Queues a cookie whose value is encrypted with the first secret,
+ * so the client can neither read nor modify it.
+ *
+ * @example
+ * ```ts
+ * setEncryptedCookie("prefs", JSON.stringify(prefs), { httpOnly: true, secure: true });
+ * const prefs = JSON.parse(getEncryptedCookie("prefs") ?? "{}");
+ * ```
+ */
+export const setEncryptedCookie = (
+  name: string,
+  value: string,
+  options: SecretCookieOptions = {},
+): void => {
+  const { secrets, ...cookieOptions } = options;
+  const [secret] = useSecrets("setEncryptedCookie", secrets) as [string];
+  const iv = randomBytes(IV_LENGTH);
+  const cipher = createCipheriv("aes-256-gcm", encryptionKey(secret), iv);
+  cipher.setAAD(Buffer.from(name));
+  const ciphertext = Buffer.concat([
+    cipher.update(value, "utf8"),
+    cipher.final(),
+  ]);
+  const payload = Buffer.concat([iv, cipher.getAuthTag(), ciphertext]);
+  setCookie(name, payload.toString("base64url"), cookieOptions);
+};
@@ -0,0 +1,140 @@
+// Error handling for the middleware chain
+
+import type { Middleware } from ".";
+
+// ============================================================================
+// HttpError
+// ============================================================================
+
+/**
+ * Default messages for common HTTP error statuses
+ * @internal
+ */
+const STATUS_TEXT: Record<number, string> = {
+  400: "Bad Request",
+  401: "Unauthorized",
+  403: "Forbidden",
+  404: "Not Found",
+  405: "Method Not Allowed",
+  409: "Conflict",
+  410: "Gone",
+  412: "Precondition Failed",
+  413: "Payload Too Large",
+  415: "Unsupported Media Type",
+  422: "Unprocessable Entity",
+  429: "Too Many Requests",
+  500: "Internal Server Error",
+  501: "Not Implemented",
+  502: "Bad Gateway",
+  503: "Service Unavailable",
+  504: "Gateway Timeout",
+};
+
+/**
+ * Options for HttpError
+ */
+export interface HttpErrorOptions {
+  /**
+   * Headers added to the error response (e.g. `WWW-Authenticate`, `Retry-After`)
+   */
+  headers?: HeadersInit;
+  /**
+   * The underlying error, if any
+   */
+  cause?: unknown;
+}
+
+/**
+ * Error that carries an HTTP status and headers.
+ * Throw it from any middleware or handler; the router turns it into a response.
+ *
+ * @example
+ * ```ts
+ * const handler = async (req) => {
+ *   const user = await db.findUser(req.params.id);
+ *   if (!user) throw new HttpError(404, "User not found");
+ *   return Response.json(user);
+ * };
+ * ```
+ */
+export class HttpError extends Error {
+  readonly status: number;
+  readonly headers: Headers;
+
+  constructor(status: number, message?: string, options?: HttpErrorOptions) {
+    super(message ?? STATUS_TEXT[status] ?? "Error", {
+      cause: options?.cause,
+    });
+    this.name = "HttpError";
+    this.status = status;
+    this.headers = new Headers(options?.headers);
+  }
+
+  /**
+   * Creates the JSON response for this error
+   */
+  toResponse(): Response {
+    return Response.json(
+      { error: this.message },
+      { status: this.status, headers: this.headers },
+    );
+  }
+}
+
+// ============================================================================
+// Error Hooks
+// ============================================================================
+
+/**
+ * Error hook type. Runs inside the request's context scope,
+ * so `useContext` values set by earlier middleware are still readable.
+ */
+export type ErrorHandler<P extends string = string, S = undefined> = (
+  error: unknown,
+  req: Bun.BunRequest<P>,
+  server: Bun.Server<S>,
+) => Response | Promise<Response>;
+
+/**
+ * Converts an error that no hook handled into a response.
+ * HttpError becomes its own response, anything else is logged and becomes a 500.
+ * @internal
+ */
+export const errorToResponse = (error: unknown): Response => {
+  if (error instanceof HttpError) {
+    return error.toResponse();
+  }
+  console.error("Unhandled error in route", error);
+  return new HttpError(500).toResponse();
+};
+
+/**
+ * Creates a middleware that catches errors thrown or rejected by every
+ * middleware and handler after it in the chain.
+ * Use it on a route, in a route group's middleware list, or app-wide.
+ *
+ * @example
+ * ```ts
+ * const api = createRouteGroup("/api", [
+ *   onError((error, req) => {
+ *     const requestId = useContext(RequestIdContext);
+ *     logger.error({ error, requestId, url: req.url });
+ *     return error instanceof HttpError
+ *       ? error.toResponse()
+ *       : Response.json({ error: "Something went wrong" }, { status: 500 });
+ *   }),
+ *   authMiddleware,
+ * ]);
+ * ```
+ */
+export const onError = <P extends string = string, S = undefined>(
+  handler: ErrorHandler<P, S>,
+): Middleware<P, S> => {
+  return async (req, server, next) => {
+    try {
+      return await next();
+    } catch (error) {
+      return handler(error, req, server);
+    }
+  };
+};
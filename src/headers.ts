@@ -0,0 +1,23 @@
+// Header helpers shared by the built-in middleware
+
+/**
+ * Adds values to the `Vary` header, keeping existing ones and `*`
+ * @internal
+ */
+export const appendVary = (headers: Headers, ...values: string[]): void => {
+  const current = headers.get("Vary");
+  if (current?.trim() === "*") return;
+
+  const existing = (current ?? "")
+    .split(",")
+    .map((value) => value.trim())
+    .filter(Boolean);
+  const lower = new Set(existing.map((value) => value.toLowerCase()));
+
+  for (const value of values) {
+    if (lower.has(value.toLowerCase())) continue;
+    existing.push(value);
+    lower.add(value.toLowerCase());
+  }
+  headers.set("Vary", existing.join(", "));
+};
@@ -1,8 +1,10 @@
 import { AsyncBuffer, Fragment, type JSXNode, SafeString, VNode } from "./jsx";
+import { waitBeforeResponse } from "./lifecycle";
 import {
   createContext,
   getContextStore,
   runWithContextValue,
+  setContext,
   useContext,
 } from "./store";
 
@@ -17,7 +19,43 @@ type HeadElement = {
   key?: string; // For deduplication (e.g. 'name:viewport')
   content: string; // The full HTML string of the tag
 };
-const HeadContext = createContext<HeadElement[]>("abret-head");
+const HeadContext = createContext<HeadElement[], "abret-head">("abret-head");
+
+/**
+ * Rewrites the props of an intrinsic element before it is rendered,
+ * e.g. to add attributes or children. Returns undefined to keep them.
+ */
+export type ElementTransform = (
+  tag: string,
+  props: Record<string, any>,
+) => Record<string, any> | undefined;
+
+const ElementTransformsContext = createContext<
+  ElementTransform[],
+  "abret-element-transforms"
+>("abret-element-transforms");
+
+/**
+ * Registers a transform for every intrinsic element rendered later in the
+ * current context scope. Lets middleware rewrite the markup of the handlers
+ * and components after them.
+ *
+ * @example
+ * ```ts
+ * const externalLinks = createMiddleware((req, server, next) => {
+ *   transformElements((tag, props) =>
+ *     tag === "a" && props.href?.startsWith("http")
+ *       ? { ...props, rel: "noopener", target: "_blank" }
+ *       : undefined,
+ *   );
+ *   return next();
+ * });
+ * ```
+ */
+export function transformElements(transform: ElementTransform): void {
+  const transforms = useContext(ElementTransformsContext) ?? [];
+  setContext(ElementTransformsContext, [...transforms, transform]);
+}
 
 /**
  * Helper to create HTML Response automatically
@@ -41,6 +79,24 @@ export class HTMLResponse extends Response {
     this._bodySource = body;
   }
 
+  /**
+   * Resolves to the markup once async components rendered, undefined when
+   * the body isn't rendered markup (e.g. a stream passed in directly)
+   * @internal
+   */
+  rendered(): Promise<string> | undefined {
+    const source = this._bodySource;
+    if (source instanceof SafeString || typeof source === "string") {
+      return Promise.resolve(source.toString());
+    }
+    if (source instanceof Promise || source instanceof AsyncBuffer) {
+      return (source as Promise<SafeString>).then((markup) =>
+        markup.toString(),
+      );
+    }
+    return undefined;
+  }
+
   init(newInit: ResponseInit): HTMLResponse {
     const currentHeaders = new Headers(this.headers);
     if (newInit.headers) {
@@ -123,6 +179,8 @@ export function html(
   const rendered = runWithContextValue(HeadContext, headCollection, runRender);
 
   if (rendered instanceof Promise) {
+    // Async components may set headers or cookies, let the response hooks see them
+    waitBeforeResponse(rendered);
     return new HTMLResponse(
       rendered.then((s) => raw(injectMetadata(s.toString(), headCollection))),
     );
@@ -366,7 +424,14 @@ export function render(node: any): SafeString | Promise<SafeString> {
     // Handle Intrinsic (String tag)
     if (typeof node.tag === "string") {
       const tag = node.tag;
-      const { children, dangerouslySetInnerHTML, ...rest } = node.props;
+      let props = node.props;
+      const transforms = useContext(ElementTransformsContext);
+      if (transforms) {
+        for (const transform of transforms) {
+          props = transform(tag, props) ?? props;
+        }
+      }
+      const { children, dangerouslySetInnerHTML, ...rest } = props;
 
       // 🛡️ HEAD HOISTING INTERCEPTION
       if (tag === "title" || tag === "meta" || tag === "link") {
@@ -1,14 +1,104 @@
 // bun route utility with middleware support
 
-// Internal import for use in wrapWithMiddleware
-import { runWithContext as _runWithContext } from "./store";
+// Internal imports for use in wrapWithMiddleware
+import {
+  type ErrorHandler,
+  errorToResponse,
+  HttpError,
+  onError,
+} from "./errors";
+import {
+  drainResponseHooks,
+  type HookErrorHandler,
+  onHookError,
+  runInRequestScope,
+} from "./lifecycle";
+import {
+  getRouteMeta,
+  type RouteMeta,
+  setRouteMeta,
+  updateRouteMeta,
+} from "./meta";
+import type {
+  Context,
+  ProvidedContexts,
+  ProvidesContexts,
+  RequiredContexts,
+} from "./store";
+import { buildQuery, fillPath } from "./url";
+import type { SchemasOf } from "./validation";
+import { createWebSocketHandler } from "./websocket";
 
 export {
+  type CookieOptions,
+  type CookieSecrets,
+  cookieSecrets,
+  deleteCookie,
+  getCookie,
+  getEncryptedCookie,
+  getSignedCookie,
+  type SecretCookieOptions,
+  setCookie,
+  setEncryptedCookie,
+  setSignedCookie,
+} from "./cookies";
+export {
+  type ErrorHandler,
+  HttpError,
+  type HttpErrorOptions,
+  onError,
+} from "./errors";
+
+export {
+  type AfterHook,
+  after,
+  type HookErrorHandler,
+  onHookError,
+  onResponse,
+  type ResponseHook,
+} from "./lifecycle";
+export {
+  describeRoute,
+  formatRoutes,
+  listRoutes,
+  printRoutes,
+  type RouteInfo,
+} from "./manifest";
+export { type SSEOptions, type SSEStream, sse } from "./sse";
+export {
+  type ContextRequirement,
   createContext,
+  type ProvidedContexts,
+  type ProvidesContexts,
+  type RequiredContexts,
+  type RequiresContexts,
+  requireContext,
   runWithContext,
   runWithContextValue,
   useContext,
 } from "./store";
+export {
+  type InferSchemaInput,
+  type InferSchemaOutput,
+  type RequestPart,
+  type SchemasOf,
+  type StandardSchemaIssue,
+  type StandardSchemaResult,
+  type StandardSchemaV1,
+  useValidated,
+  ValidatedContext,
+  type ValidatedInput,
+  type ValidationIssue,
+  type ValidationSchemas,
+  validate,
+  type WithSchemas,
+  withValidation,
+} from "./validation";
+export {
+  createWebSocketHandler,
+  createWebSocketRoute,
+  type WebSocketRouteHandlers,
+} from "./websocket";
 
 // ============================================================================
 // Middleware Types
@@ -32,6 +122,17 @@ export type Middleware<P extends string = string, S = undefined> = (
   next: NextFunction,
 ) => Response | Promise<Response>;
 
+/**
+ * Method handler with its own middleware, for use in method-object routes.
+ * Route-level middleware runs before the method's middleware.
+ */
+export interface MethodRoute<P extends string = string, S = undefined> {
+  handler:
+    | Response
+    | Bun.Serve.Handler<Bun.BunRequest<P>, Bun.Server<S>, Response>;
+  middleware?: Middleware<P, S>[];
+}
+
 /**
  * Route handler type - can be a Response, handler function, or method handlers
  */
@@ -45,6 +146,130 @@ export type RouteValue<P extends string = string, S = undefined> =
       >
     >;
 
+/**
+ * Route definition accepted by createRoute and route groups.
+ * Same as RouteValue, but method entries may also carry their own middleware.
+ */
+export type RouteDefinition<P extends string = string, S = undefined> =
+  | RouteValue<P, S>
+  | Partial<
+      Record<
+        Bun.Serve.HTTPMethod,
+        | Response
+        | Bun.Serve.Handler<Bun.BunRequest<P>, Bun.Server<S>, Response>
+        | MethodRoute<P, S>
+      >
+    >;
+
+/**
+ * Type-only key carrying the schemas of a route
+ * @internal
+ */
+declare const routeTypes: unique symbol;
+
+/**
+ * Route value returned by createRoute and route groups.
+ * Carries the schemas of each method at the type level, for the typed client.
+ */
+export type TypedRouteValue<
+  P extends string = string,
+  S = undefined,
+  Schemas = unknown,
+> = RouteValue<P, S> & { readonly [routeTypes]?: Schemas };
+
+/**
+ * Schemas of each method of a route value, under `ALL` for single-handler
+ * routes. `never` for route values not created by createRoute.
+ */
+export type InferRouteSchemas<V> = V extends {
+  readonly [routeTypes]?: infer Schemas;
+}
+  ? Schemas
+  : never;
+
+/**
+ * Schemas of B replace the ones of A for the same request part
+ * @internal
+ */
+type MergeSchemas<A, B> = Omit<A, keyof B> & B;
+
+/**
+ * Schemas attached to a tuple of middlewares, later ones win
+ * @internal
+ */
+type MiddlewareSchemas<M> = M extends readonly [infer First, ...infer Rest]
+  ? MergeSchemas<SchemasOf<First>, MiddlewareSchemas<Rest>>
+  : Record<never, never>;
+
+/**
+ * Schemas of a single method entry, including its own middleware
+ * @internal
+ */
+type EntrySchemas<E, Inherited> = E extends {
+  handler: infer H;
+  middleware?: infer M;
+}
+  ? MergeSchemas<MergeSchemas<Inherited, MiddlewareSchemas<M>>, SchemasOf<H>>
+  : MergeSchemas<Inherited, SchemasOf<E>>;
+
+/**
+ * Schemas of each method of a route definition with route-level middlewares `M`
+ */
+export type RouteSchemas<D, M = []> = [keyof D & Bun.Serve.HTTPMethod] extends [
+  never,
+]
+  ? { ALL: EntrySchemas<D, MiddlewareSchemas<M>> }
+  : {
+      [K in keyof D & Bun.Serve.HTTPMethod]: EntrySchemas<
+        D[K],
+        MiddlewareSchemas<M>
+      >;
+    };
+
+/**
+ * Contexts provided by a tuple of middlewares
+ * @internal
+ */
+type MiddlewareContexts<M> = M extends readonly (infer T)[]
+  ? ProvidedContexts<T>
+  : never;
+
+/**
+ * Contexts required by a single method entry and not provided
+ * by its own middleware or the inherited ones
+ * @internal
+ */
+type EntryMissingContexts<E, Provided> = E extends {
+  handler: infer H;
+  middleware?: infer M;
+}
+  ? Exclude<RequiredContexts<H>, Provided | MiddlewareContexts<M>>
+  : Exclude<RequiredContexts<E>, Provided>;
+
+/**
+ * Contexts required by the handlers of a route definition that
+ * none of the `Provided` contexts satisfy
+ */
+export type MissingContexts<D, Provided> = [
+  keyof D & Bun.Serve.HTTPMethod,
+] extends [never]
+  ? EntryMissingContexts<D, Provided>
+  : {
+      [K in keyof D & Bun.Serve.HTTPMethod]: EntryMissingContexts<
+        D[K],
+        Provided
+      >;
+    }[keyof D & Bun.Serve.HTTPMethod];
+
+/**
+ * Makes a route definition fail to type-check while some of its
+ * required contexts have no provider, naming them in the error
+ * @internal
+ */
+type CheckContexts<D, Provided> = [MissingContexts<D, Provided>] extends [never]
+  ? unknown
+  : { readonly "missing context provider": MissingContexts<D, Provided> };
+
 /**
  * Wraps a handler function with middleware chain and context scope
  */
@@ -54,11 +279,7 @@ const wrapWithMiddleware = <P extends string, S = undefined>(
 ): Bun.Serve.Handler<Bun.BunRequest<P>, Bun.Server<S>, Response> => {
   return (req: Bun.BunRequest<P>, server: Bun.Server<S>) => {
     // Wrap entire request handling in a context scope
-    return _runWithContext(() => {
-      if (middlewares.length === 0) {
-        return handler(req, server);
-      }
-
+    return runInRequestScope(req, (isRoot) => {
       let index = 0;
 
       const next: NextFunction = () => {
@@ -69,25 +290,126 @@ const wrapWithMiddleware = <P extends string, S = undefined>(
         return handler(req, server);
       };
 
-      return next();
+      // Errors bubble up to the wrapper that owns the scope,
+      // which turns anything no onError hook handled into a response
+      const fail = (error: unknown): Response => {
+        if (!isRoot) throw error;
+        return errorToResponse(error);
+      };
+
+      let result: Response | Promise<Response>;
+      try {
+        result = next();
+      } catch (error) {
+        result = fail(error);
+      }
+      if (result instanceof Promise) result = result.catch(fail);
+      if (!isRoot) return result;
+
+      // The final response goes through the hooks registered during the request
+      return result instanceof Promise
+        ? result.then(drainResponseHooks)
+        : drainResponseHooks(result);
     });
   };
 };
 
+/**
+ * Checks if a method entry is a `{ handler, middleware }` object
+ * @internal
+ */
+const isMethodRoute = <P extends string, S>(
+  value: unknown,
+): value is MethodRoute<P, S> =>
+  typeof value === "object" &&
+  value !== null &&
+  !(value instanceof Response) &&
+  "handler" in value;
+
+/**
+ * All methods Bun can route by
+ * @internal
+ */
+const HTTP_METHODS: Bun.Serve.HTTPMethod[] = [
+  "GET",
+  "HEAD",
+  "POST",
+  "PUT",
+  "DELETE",
+  "PATCH",
+  "OPTIONS",
+];
+
+/**
+ * Fills the methods a method object does not define:
+ * HEAD is derived from GET, OPTIONS answers with the allowed methods,
+ * and anything else throws a 405 HttpError with an `Allow` header.
+ * Implicit handlers run through the route-level middleware.
+ * Explicitly defined handlers are never replaced.
+ * @internal
+ */
+const addImplicitMethods = <P extends string, S>(
+  methods: Partial<
+    Record<
+      Bun.Serve.HTTPMethod,
+      | Response
+      | Blob
+      | Bun.Serve.Handler<Bun.BunRequest<P>, Bun.Server<S>, Response>
+    >
+  >,
+  middlewares: Middleware<P, S>[],
+): void => {
+  const defined = HTTP_METHODS.filter((method) => methods[method]);
+  if (defined.length === 0) return;
+
+  const allowed = new Set(defined);
+  if (allowed.has("GET")) allowed.add("HEAD");
+  allowed.add("OPTIONS");
+  const allow = HTTP_METHODS.filter((method) => allowed.has(method)).join(", ");
+
+  const getHandler = methods.GET;
+
+  for (const method of HTTP_METHODS) {
+    if (methods[method]) continue;
+
+    if (method === "HEAD" && getHandler) {
+      // Bun answers HEAD with the headers of this response, the length
+      // of its body included, and leaves the body out
+      methods.HEAD = async (req, server) => {
+        if (getHandler instanceof Response) return getHandler.clone();
+        if (getHandler instanceof Blob) return new Response(getHandler);
+        return getHandler(req, server);
+      };
+    } else if (method === "OPTIONS") {
+      methods.OPTIONS = wrapWithMiddleware(
+        () => new Response(null, { status: 204, headers: { Allow: allow } }),
+        middlewares,
+      );
+    } else {
+      methods[method] = wrapWithMiddleware(() => {
+        throw new HttpError(405, undefined, { headers: { Allow: allow } });
+      }, middlewares);
+    }
+  }
+};
+
 /**
  * Wraps a RouteValue with middleware support
  */
 const wrapRouteValue = <P extends string, S = undefined>(
-  value: RouteValue<P, S>,
+  value: RouteDefinition<P, S>,
   middlewares: Middleware<P, S>[],
 ): RouteValue<P, S> => {
-  if (middlewares.length === 0) {
-    return value;
-  }
-
-  // If value is a Response or Bun.file, wrap in a function first
+  // If value is a Response or Bun.file, wrap in a function first.
+  // Static responses without middleware are left to Bun's fast path.
   if (value instanceof Response) {
-    return wrapWithMiddleware(() => value, middlewares);
+    if (middlewares.length === 0) return value;
+    // Clone per request, a Response body can only be read once
+    return wrapWithMiddleware(() => value.clone(), middlewares);
+  }
+  if (value instanceof Blob) {
+    if (middlewares.length === 0) return value;
+    return wrapWithMiddleware(() => new Response(value), middlewares);
   }
 
   // If value is a function (handler)
@@ -103,15 +425,37 @@ const wrapRouteValue = <P extends string, S = undefined>(
     const wrappedMethods: Partial<
       Record<
         Bun.Serve.HTTPMethod,
-        Response | Bun.Serve.Handler<Bun.BunRequest<P>, Bun.Server<S>, Response>
+        | Response
+        | Blob
+        | Bun.Serve.Handler<Bun.BunRequest<P>, Bun.Server<S>, Response>
       >
     > = {};
 
-    for (const [method, methodHandler] of Object.entries(value)) {
-      if (methodHandler instanceof Response) {
+    for (const [method, entry] of Object.entries(value)) {
+      // Per-method middleware runs after the route-level middleware
+      let methodHandler = entry;
+      let methodMiddlewares = middlewares;
+      if (isMethodRoute<P, S>(entry)) {
+        methodHandler = entry.handler;
+        methodMiddlewares = [...middlewares, ...(entry.middleware ?? [])];
+      }
+
+      // Bun serves static responses and files in method objects too
+      const isStatic =
+        methodHandler instanceof Response || methodHandler instanceof Blob;
+      if (isStatic && methodMiddlewares.length === 0) {
+        wrappedMethods[method as Bun.Serve.HTTPMethod] = methodHandler;
+      } else if (methodHandler instanceof Response) {
+        const response = methodHandler;
+        wrappedMethods[method as Bun.Serve.HTTPMethod] = wrapWithMiddleware(
+          () => response.clone(),
+          methodMiddlewares,
+        );
+      } else if (methodHandler instanceof Blob) {
+        const file = methodHandler;
         wrappedMethods[method as Bun.Serve.HTTPMethod] = wrapWithMiddleware(
-          () => methodHandler,
-          middlewares,
+          () => new Response(file),
+          methodMiddlewares,
         );
       } else if (typeof methodHandler === "function") {
         wrappedMethods[method as Bun.Serve.HTTPMethod] = wrapWithMiddleware(
@@ -120,17 +464,69 @@ const wrapRouteValue = <P extends string, S = undefined>(
             Bun.Server<S>,
             Response
           >,
-          middlewares,
+          methodMiddlewares,
         );
       }
     }
 
-    return wrappedMethods;
+    addImplicitMethods(wrappedMethods, middlewares);
+    // Files are served by Bun in method objects, though its types omit them
+    return wrappedMethods as RouteValue<P, S>;
   }
 
   return value;
 };
 
+// ============================================================================
+// Route Metadata
+// ============================================================================
+
+/**
+ * Checks if a route value is a method object (`{ GET, POST, ... }`)
+ * @internal
+ */
+const isMethodObject = (
+  value: unknown,
+): value is Partial<Record<Bun.Serve.HTTPMethod, any>> =>
+  typeof value === "object" &&
+  value !== null &&
+  !(value instanceof Response) &&
+  !(value instanceof Blob) &&
+  HTTP_METHODS.some((method) => method in value);
+
+/**
+ * Collects the original handlers of a route definition for its metadata
+ * @internal
+ */
+const collectOperations = (value: unknown): RouteMeta["operations"] => {
+  if (!isMethodObject(value)) {
+    return { ALL: { handler: value, middlewares: [] } };
+  }
+
+  const operations: RouteMeta["operations"] = {};
+  for (const method of HTTP_METHODS) {
+    const entry = value[method];
+    if (!entry) continue;
+    operations[method] = isMethodRoute(entry)
+      ? { handler: entry.handler, middlewares: entry.middleware ?? [] }
+      : { handler: entry, middlewares: [] };
+  }
+  return operations;
+};
+
+/**
+ * Finds the first stack frame outside this module,
+ * i.e. the place where the user called createRoute or a route group.
+ * @internal
+ */
+const captureSource = (): string => {
+  const frames = new Error().stack?.split("\n").slice(1) ?? [];
+  const frame = frames.find((line) => !line.includes(import.meta.path));
+  if (!frame) return "unknown location";
+  const location = frame.trim().replace(/^at\s+/, "");
+  return location.match(/\((.*)\)$/)?.[1] ?? location;
+};
+
 // ============================================================================
 // Routing
 // ============================================================================
@@ -153,32 +549,81 @@ const wrapRouteValue = <P extends string, S = undefined>(
  * );
  * ```
  */
-export const createRoute = <P extends `/${string}`, S = undefined>(
+export const createRoute = <
+  P extends `/${string}`,
+  S = undefined,
+  const D extends RouteDefinition<P, S> = RouteDefinition<P, S>,
+  M extends Middleware<P, S>[] = Middleware<P, S>[],
+>(
   path: P,
-  value: RouteValue<P, S>,
-  ...middlewares: Middleware<P, S>[]
-): Record<P, RouteValue<P, S>> => {
+  value: D & NoInfer<CheckContexts<D, MiddlewareContexts<M>>>,
+  ...middlewares: M
+): Record<P, TypedRouteValue<P, S, RouteSchemas<D, M>>> => {
   const wrappedValue = wrapRouteValue(value, middlewares);
-  return { [path]: wrappedValue } as Record<P, RouteValue<P, S>>;
+  setRouteMeta(wrappedValue, {
+    path,
+    methods: isMethodObject(value)
+      ? HTTP_METHODS.filter((method) => value[method])
+      : undefined,
+    middlewares: middlewares as unknown as Middleware<string, unknown>[],
+    sources: [captureSource()],
+    operations: collectOperations(value),
+  });
+  return { [path]: wrappedValue } as Record<
+    P,
+    TypedRouteValue<P, S, RouteSchemas<D, M>>
+  >;
 };
 
+/**
+ * Options for createMiddleware
+ */
+export interface CreateMiddlewareOptions<
+  Provides extends readonly Context<unknown>[] = readonly Context<unknown>[],
+> {
+  /**
+   * Name shown by route introspection (listRoutes, printRoutes).
+   * Defaults to the function name.
+   */
+  name?: string;
+  /**
+   * Contexts the middleware sets before calling `next()`. Only used at the
+   * type level, to satisfy handlers declared with requireContext.
+   */
+  provides?: Provides;
+}
+
 /**
  * Helper to create a middleware function with proper typing
  *
  * @example
  * ```ts
- * const authMiddleware = createMiddleware(async (req, server, next) => {
- *   const token = req.headers.get("Authorization");
- *   if (!token) {
- *     return new Response("Unauthorized", { status: 401 });
- *   }
- *   return next();
- * });
+ * const authMiddleware = createMiddleware(
+ *   async (req, server, next) => {
+ *     const token = req.headers.get("Authorization");
+ *     if (!token) {
+ *       return new Response("Unauthorized", { status: 401 });
+ *     }
+ *     setContext(UserContext, await verify(token));
+ *     return next();
+ *   },
+ *   { name: "auth", provides: [UserContext] },
+ * );
  * ```
  */
-export const createMiddleware = <P extends string = string, S = undefined>(
+export const createMiddleware = <
+  P extends string = string,
+  S = undefined,
+  const Provides extends readonly Context<unknown>[] = [],
+>(
   fn: Middleware<P, S>,
-): Middleware<P, S> => fn;
+  options?: CreateMiddlewareOptions<Provides>,
+): Middleware<P, S> & ProvidesContexts<Provides[number]> => {
+  if (options?.name) {
+    Object.defineProperty(fn, "name", { value: options.name });
+  }
+  return fn;
+};
 
 /**
  * Compose multiple middlewares into a single middleware
@@ -210,6 +655,59 @@ export const composeMiddlewares = <P extends string = string, S = undefined>(
   };
 };
 
+/**
+ * Applies middlewares to every route of a routes object, outside any
+ * middleware the routes already have. Useful for app-wide error hooks or logging.
+ *
+ * @example
+ * ```ts
+ * const routes = applyMiddleware(
+ *   mergeRoutes(home, api),
+ *   onError((error) => Response.json({ error: "Oops" }, { status: 500 })),
+ * );
+ * ```
+ */
+export const applyMiddleware = <T extends RouteObject, S = undefined>(
+  routes: T,
+  ...middlewares: Middleware<string, S>[]
+): T => {
+  const wrapped: RouteObject = {};
+  for (const [path, value] of Object.entries(routes)) {
+    wrapped[path] = wrapRouteValue(value, middlewares);
+    const meta = getRouteMeta(value);
+    if (meta) {
+      setRouteMeta(wrapped[path], {
+        ...meta,
+        middlewares: [...middlewares, ...meta.middlewares],
+      });
+    }
+  }
+  return wrapped as T;
+};
+
+/**
+ * Restricts a middleware to the given HTTP methods.
+ * Requests with other methods skip it and continue down the chain.
+ *
+ * @example
+ * ```ts
+ * const route = createRoute(
+ *   "/posts",
+ *   { GET: listPosts, POST: createPost, DELETE: deletePosts },
+ *   forMethods(["POST", "DELETE"], csrfMiddleware),
+ * );
+ * ```
+ */
+export const forMethods = <P extends string = string, S = undefined>(
+  methods: Bun.Serve.HTTPMethod[],
+  ...middlewares: Middleware<P, S>[]
+): Middleware<P, S> => {
+  const allowed = new Set<string>(methods);
+  const composed = composeMiddlewares(...middlewares);
+  return (req, server, next) =>
+    allowed.has(req.method) ? composed(req, server, next) : next();
+};
+
 // ============================================================================
 // Route Merging Utilities
 // ============================================================================
@@ -238,7 +736,135 @@ export type RouteObject = Record<string, any>;
 export const mergeRoutes = <T extends RouteObject[]>(
   ...routes: T
 ): UnionToIntersection<T[number]> => {
-  return Object.assign({}, ...routes) as UnionToIntersection<T[number]>;
+  const merged: RouteObject = {};
+
+  for (const routeObject of routes) {
+    const replace = overridingRoutes.has(routeObject);
+    for (const [path, value] of Object.entries(routeObject)) {
+      const existing = merged[path];
+      merged[path] =
+        existing === undefined || existing === value || replace
+          ? value
+          : combineRouteValues(path, existing, value);
+    }
+  }
+
+  return merged as UnionToIntersection<T[number]>;
+};
+
+/**
+ * Route objects allowed to replace existing paths in mergeRoutes
+ * @internal
+ */
+const overridingRoutes = new WeakSet<RouteObject>();
+
+/**
+ * Marks a route object as intentionally replacing routes with the same path
+ * when passed to mergeRoutes, instead of raising a conflict.
+ *
+ * @example
+ * ```ts
+ * const routes = mergeRoutes(
+ *   adminRoutes,
+ *   overrideRoutes(createRoute("/admin", customAdminPage)),
+ * );
+ * ```
+ */
+export const overrideRoutes = <T extends RouteObject>(routes: T): T => {
+  overridingRoutes.add(routes);
+  return routes;
+};
+
+/**
+ * Describes where a route value was defined, for error messages
+ * @internal
+ */
+const describeSources = (value: unknown): string =>
+  getRouteMeta(value)?.sources.join(" + ") || "unknown location";
+
+/**
+ * Combines two definitions of the same path.
+ * Method objects are merged method-by-method, anything else is a conflict.
+ * @internal
+ */
+const combineRouteValues = (
+  path: string,
+  existing: unknown,
+  incoming: unknown,
+): RouteValue => {
+  const hint = "Use overrideRoutes() to replace a route intentionally.";
+
+  if (!isMethodObject(existing) || !isMethodObject(incoming)) {
+    throw new Error(
+      `Route conflict: "${path}" is defined twice ` +
+        `(at ${describeSources(existing)} and at ${describeSources(incoming)}). ${hint}`,
+    );
+  }
+
+  const existingMeta = getRouteMeta(existing);
+  const incomingMeta = getRouteMeta(incoming);
+  const existingMethods =
+    existingMeta?.methods ?? (Object.keys(existing) as Bun.Serve.HTTPMethod[]);
+  const incomingMethods =
+    incomingMeta?.methods ?? (Object.keys(incoming) as Bun.Serve.HTTPMethod[]);
+
+  const duplicates = incomingMethods.filter((method) =>
+    existingMethods.includes(method),
+  );
+  if (duplicates.length > 0) {
+    throw new Error(
+      `Route conflict: ${duplicates.join(", ")} "${path}" is defined twice ` +
+        `(at ${describeSources(existing)} and at ${describeSources(incoming)}). ${hint}`,
+    );
+  }
+
+  // Middleware both definitions share stays route-level,
+  // the rest moves to the methods of the definition it came from
+  const existingMiddlewares = existingMeta?.middlewares ?? [];
+  const incomingMiddlewares = incomingMeta?.middlewares ?? [];
+  const shared = existingMiddlewares.filter((middleware) =>
+    incomingMiddlewares.includes(middleware),
+  );
+  const ownOperations = (meta: RouteMeta | undefined) => {
+    const own = (meta?.middlewares ?? []).filter((m) => !shared.includes(m));
+    const operations: RouteMeta["operations"] = {};
+    for (const [method, operation] of Object.entries(meta?.operations ?? {})) {
+      operations[method as Bun.Serve.HTTPMethod] = {
+        handler: operation.handler,
+        middlewares: [...own, ...operation.middlewares],
+      };
+    }
+    return operations;
+  };
+
+  // Only explicit methods are carried over, implicit ones are recomputed
+  const combined: Partial<
+    Record<Bun.Serve.HTTPMethod, Response | Bun.Serve.Handler<any, any, any>>
+  > = {};
+  for (const method of existingMethods) combined[method] = existing[method];
+  for (const method of incomingMethods) combined[method] = incoming[method];
+  addImplicitMethods(combined, shared);
+
+  setRouteMeta(combined, {
+    ...incomingMeta,
+    ...existingMeta,
+    path,
+    methods: HTTP_METHODS.filter(
+      (method) =>
+        existingMethods.includes(method) || incomingMethods.includes(method),
+    ),
+    middlewares: shared,
+    operations: {
+      ...ownOperations(existingMeta),
+      ...ownOperations(incomingMeta),
+    },
+    sources: [
+      ...(existingMeta?.sources ?? []),
+      ...(incomingMeta?.sources ?? []),
+    ],
+  });
+
+  return combined;
 };
 
 /**
@@ -253,42 +879,450 @@ type UnionToIntersection<U> = (
   ? I
   : never;
 
+/**
+ * Route group returned by createRouteGroup.
+ * Call it to register a route under the group's prefix and middlewares.
+ */
+export interface RouteGroup<
+  Prefix extends string,
+  S = undefined,
+  Provided extends Context<unknown> = never,
+> {
+  <
+    P extends `/${string}` | "",
+    const D extends RouteDefinition<string, S> = RouteDefinition<string, S>,
+  >(
+    path: P,
+    value: D & NoInfer<CheckContexts<D, Provided>>,
+  ): Record<
+    JoinPath<Prefix, P>,
+    TypedRouteValue<JoinPath<Prefix, P>, S, RouteSchemas<D>>
+  >;
+  /**
+   * Creates a child group. Prefixes are joined and middlewares
+   * run in parent-to-child order.
+   */
+  group<
+    Child extends `/${string}` | "",
+    M extends Middleware<string, S>[] = Middleware<string, S>[],
+  >(
+    prefix: Child,
+    middlewares?: M,
+  ): RouteGroup<JoinPath<Prefix, Child>, S, Provided | MiddlewareContexts<M>>;
+  /**
+   * The normalized prefix of the group
+   */
+  readonly prefix: Prefix;
+}
+
+/**
+ * Builds a group from an already normalized prefix
+ * @internal
+ */
+const buildRouteGroup = <
+  Prefix extends string,
+  S = undefined,
+  Provided extends Context<unknown> = never,
+>(
+  prefix: Prefix,
+  middlewares: Middleware<string, S>[],
+): RouteGroup<Prefix, S, Provided> => {
+  const group = <
+    P extends `/${string}` | "",
+    const D extends RouteDefinition<string, S> = RouteDefinition<string, S>,
+  >(
+    path: P,
+    value: D,
+  ) => {
+    const normalizedPath = joinPaths(prefix, path) as JoinPath<Prefix, P>;
+
+    const route = createRoute<
+      `/${string}`,
+      S,
+      RouteDefinition<`/${string}`, S>,
+      Middleware<`/${string}`, S>[]
+    >(
+      normalizedPath as `/${string}`,
+      value as RouteDefinition<`/${string}`, S>,
+      ...(middlewares as unknown as Middleware<`/${string}`, S>[]),
+    );
+    updateRouteMeta(route[normalizedPath as `/${string}`], { group: prefix });
+
+    return route as unknown as Record<
+      JoinPath<Prefix, P>,
+      TypedRouteValue<JoinPath<Prefix, P>, S, RouteSchemas<D>>
+    >;
+  };
+
+  return Object.assign(group, {
+    group: <Child extends `/${string}` | "">(
+      childPrefix: Child,
+      childMiddlewares: Middleware<string, S>[] = [],
+    ) =>
+      buildRouteGroup(
+        joinPaths(prefix, childPrefix) as JoinPath<Prefix, Child>,
+        [...middlewares, ...childMiddlewares],
+      ),
+    prefix,
+  });
+};
+
 /**
  * Creates a route group factory with a common prefix and optional shared middlewares.
+ * Groups can create child groups that inherit the prefix and middlewares.
  *
  * @example
  * ```ts
  * const api = createRouteGroup("/api", [authMiddleware]);
+ * const v1 = api.group("/v1", [versionMiddleware]);
  *
  * const routes = mergeRoutes(
  *   api("/users", { GET: () => Response.json([]) }),
  *   api("/users/:id", (req) => Response.json({ id: req.params.id })),
+ *   v1("/status", () => Response.json({ ok: true })), // "/api/v1/status"
  * );
  * ```
  */
-export const createRouteGroup = <Prefix extends `/${string}`, S = undefined>(
+export const createRouteGroup = <
+  Prefix extends `/${string}`,
+  S = undefined,
+  M extends Middleware<string, S>[] = Middleware<string, S>[],
+>(
   prefix: Prefix,
-  middlewares: Middleware<string, S>[] = [],
-) => {
-  return <P extends `/${string}` | "">(
-    path: P,
-    value: RouteValue<string, S>,
-  ) => {
-    // Combine with slashes and replace multiple slashes with a single one
-    // This also guarantees a leading slash
-    let fullPath = `/${prefix}/${path}`.replace(/\/+/g, "/");
+  middlewares: M = [] as unknown as M,
+): RouteGroup<JoinPath<Prefix, "">, S, MiddlewareContexts<M>> => {
+  return buildRouteGroup(joinPaths(prefix, "") as JoinPath<Prefix, "">, [
+    ...middlewares,
+  ]);
+};
+
+// ============================================================================
+// Path Utilities
+// ============================================================================
+
+/**
+ * Collapses repeated slashes in a path type
+ * @internal
+ */
+type CollapseSlashes<S extends string> = S extends `${infer A}//${infer B}`
+  ? CollapseSlashes<`${A}/${B}`>
+  : S;
+
+/**
+ * Strips trailing slashes from a path type, keeping the root "/"
+ * @internal
+ */
+type StripTrailingSlash<S extends string> = S extends "/"
+  ? S
+  : S extends `${infer A}/`
+    ? StripTrailingSlash<A>
+    : S;
+
+/**
+ * Type-level equivalent of the prefix normalization done by createRouteGroup.
+ * `JoinPath<"/api/", "/users/">` is `"/api/users"`.
+ */
+export type JoinPath<
+  Prefix extends string,
+  P extends string,
+> = StripTrailingSlash<CollapseSlashes<`/${Prefix}/${P}`>>;
+
+/**
+ * Joins a prefix and a path the same way at runtime:
+ * guarantees a leading slash, collapses repeated slashes and
+ * strips the trailing slash except for the root "/".
+ * @internal
+ */
+const joinPaths = (prefix: string, path: string): string => {
+  // Combine with slashes and replace multiple slashes with a single one
+  // This also guarantees a leading slash
+  let fullPath = `/${prefix}/${path}`.replace(/\/+/g, "/");
+
+  // Strip trailing slash except for root "/"
+  if (fullPath.length > 1 && fullPath.endsWith("/")) {
+    fullPath = fullPath.slice(0, -1);
+  }
+
+  return fullPath || "/";
+};
+
+// ============================================================================
+// URL Building
+// ============================================================================
+
+/**
+ * Extracts the `:param` names of a path literal
+ * @internal
+ */
+type PathParamNames<P extends string> =
+  P extends `${string}:${infer Param}/${infer Rest}`
+    ? Param | PathParamNames<Rest>
+    : P extends `${string}:${infer Param}`
+      ? Param
+      : never;
+
+/**
+ * Parameters required to build a URL for the path `P`.
+ * `:name` segments map to `name`, a trailing `*` maps to `"*"`.
+ *
+ * @example
+ * ```ts
+ * type T = RouteParams<"/files/:owner/*">;
+ * // { owner: string | number; "*": string }
+ * ```
+ */
+export type RouteParams<P extends string> = string extends P
+  ? Record<string, string | number>
+  : {
+      [K in PathParamNames<P> | (P extends `${string}*` ? "*" : never)]:
+        | string
+        | number;
+    };
+
+/**
+ * Query string values accepted by the URL builder.
+ * `null` and `undefined` entries are skipped, arrays repeat the key.
+ */
+export type QueryParams = Record<
+  string,
+  | string
+  | number
+  | boolean
+  | null
+  | undefined
+  | ReadonlyArray<string | number | boolean>
+>;
+
+/**
+ * Options for building a URL for the path `P`
+ */
+export type UrlForOptions<P extends string> = {
+  /**
+   * Query string parameters, encoded with URLSearchParams
+   */
+  query?: QueryParams;
+  /**
+   * Fragment appended after the query string (without "#")
+   */
+  hash?: string;
+} & (keyof RouteParams<P> extends never
+  ? { params?: undefined }
+  : { params: RouteParams<P> });
+
+/**
+ * Arguments of a URL builder call, `options` is only required
+ * when the path declares parameters.
+ * @internal
+ */
+type UrlForArgs<P extends string> = keyof RouteParams<P> extends never
+  ? [options?: UrlForOptions<P>]
+  : [options: UrlForOptions<P>];
+
+/**
+ * URL builder returned by createUrlBuilder
+ */
+export type UrlFor<T extends RouteObject> = <P extends keyof T & string>(
+  path: P,
+  ...args: UrlForArgs<NoInfer<P>>
+) => string;
+
+/**
+ * Creates a typed URL builder from a routes object (usually the result of mergeRoutes).
+ * Paths are checked against the registered routes, `:param` and `*` segments
+ * become required arguments and query params are encoded.
+ *
+ * @example
+ * ```ts
+ * const routes = mergeRoutes(
+ *   createRoute("/", () => new Response("Home")),
+ *   api("/users/:id", (req) => Response.json({ id: req.params.id })),
+ * );
+ *
+ * const urlFor = createUrlBuilder(routes);
+ *
+ * urlFor("/"); // "/"
+ * urlFor("/api/users/:id", { params: { id: 42 }, query: { tab: "posts" } });
+ * // "/api/users/42?tab=posts"
+ * ```
+ */
+export const createUrlBuilder = <T extends RouteObject>(
+  routes: T,
+): UrlFor<T> => {
+  return (path, ...args) => {
+    if (!Object.hasOwn(routes, path)) {
+      throw new Error(`Route "${path}" is not registered`);
+    }
+
+    const [options] = args as [UrlForOptions<string> | undefined];
+    let url = fillPath(path, options?.params);
 
-    // Strip trailing slash except for root "/"
-    if (fullPath.length > 1 && fullPath.endsWith("/")) {
-      fullPath = fullPath.slice(0, -1);
+    if (options?.query) {
+      const search = buildQuery(options.query);
+      if (search) url += `?${search}`;
+    }
+    if (options?.hash) {
+      url += `#${encodeURIComponent(options.hash)}`;
     }
 
-    const normalizedPath = (fullPath || "/") as `${Prefix}${P}`;
+    return url;
+  };
+};
 
-    return createRoute(
-      normalizedPath as `/${string}`,
-      value as RouteValue<`/${string}`, S>,
-      ...(middlewares as unknown as Middleware<`/${string}`, S>[]),
-    );
+// ============================================================================
+// Application
+// ============================================================================
+
+/**
+ * Options for createApp
+ */
+export interface AppOptions<
+  S = undefined,
+  M extends Middleware<string, S>[] = Middleware<string, S>[],
+> {
+  /**
+   * Middleware applied to every route, including static Response routes,
+   * and to the not-found handler. Runs before route and group middleware.
+   * The contexts it provides count for routes created with `app.group()`.
+   */
+  middleware?: M;
+  /**
+   * Handler for requests that match no route.
+   * Runs inside the same context scope and global middleware as routes.
+   * Defaults to a JSON 404 response.
+   */
+  notFound?: Bun.Serve.Handler<Bun.BunRequest<string>, Bun.Server<S>, Response>;
+  /**
+   * App-wide error hook, runs after route and group hooks
+   */
+  onError?: ErrorHandler<string, S>;
+  /**
+   * Receives errors of onResponse and after hooks, which are logged otherwise
+   */
+  onHookError?: HookErrorHandler;
+  /**
+   * WebSocket handlers for sockets not upgraded by a WebSocket route,
+   * and options passed through to Bun.serve
+   */
+  websocket?: Bun.WebSocketHandler<S>;
+}
+
+/**
+ * Configuration produced by an app, ready to spread into Bun.serve
+ */
+export interface AppConfig<R extends RouteObject = RouteObject, S = undefined> {
+  routes: R;
+  fetch: (req: Request, server: Bun.Server<S>) => Response | Promise<Response>;
+  error: (error: Error) => Response;
+  websocket: Bun.WebSocketHandler<S>;
+}
+
+/**
+ * Application returned by createApp
+ */
+export interface App<
+  R extends RouteObject = Record<never, never>,
+  S = undefined,
+  Provided extends Context<unknown> = never,
+> {
+  /**
+   * Adds route objects (from createRoute, route groups or mergeRoutes)
+   */
+  add<T extends RouteObject[]>(
+    ...routes: T
+  ): App<R & UnionToIntersection<T[number]>, S, Provided>;
+  /**
+   * Adds global middleware, applied to every route when the app is built.
+   * The contexts it provides count for routes created with `app.group()`.
+   */
+  use<M extends Middleware<string, S>[]>(
+    ...middlewares: M
+  ): App<R, S, Provided | MiddlewareContexts<M>>;
+  /**
+   * Creates a route group whose context requirements may be met by the
+   * app's global middleware, which is applied when the app is built.
+   * Add its routes with `add()` like any other.
+   */
+  group<
+    Prefix extends `/${string}` | "",
+    M extends Middleware<string, S>[] = Middleware<string, S>[],
+  >(
+    prefix: Prefix,
+    middlewares?: M,
+  ): RouteGroup<JoinPath<Prefix, "">, S, Provided | MiddlewareContexts<M>>;
+  /**
+   * Builds the Bun.serve configuration
+   */
+  build(): AppConfig<R, S>;
+}
+
+/**
+ * Creates an application that collects routes and groups,
+ * applies global middleware to all of them and handles unmatched requests.
+ *
+ * @example
+ * ```ts
+ * const app = createApp({
+ *   middleware: [logger],
+ *   notFound: () => html(<NotFound />).init({ status: 404 }),
+ * });
+ *
+ * app.add(home, api("/users", listUsers));
+ *
+ * // Routes reading contexts provided by global middleware
+ * const account = app.use(auth).group("/account");
+ * app.add(account("/profile", profile));
+ *
+ * Bun.serve({ port: 3000, ...app.build() });
+ * ```
+ */
+export const createApp = <
+  S = undefined,
+  M extends Middleware<string, S>[] = Middleware<string, S>[],
+>(
+  options: AppOptions<S, M> = {},
+): App<Record<never, never>, S, MiddlewareContexts<M>> => {
+  const collected: RouteObject[] = [];
+  const globalMiddlewares: Middleware<string, S>[] = [
+    ...(options.middleware ?? []),
+  ];
+
+  const app: App<any, S, any> = {
+    add(...routes) {
+      collected.push(...routes);
+      return app;
+    },
+    use(...middlewares) {
+      globalMiddlewares.push(...middlewares);
+      return app;
+    },
+    group(prefix, middlewares) {
+      return buildRouteGroup(
+        joinPaths(prefix, "") as JoinPath<typeof prefix, "">,
+        [...(middlewares ?? [])],
+      );
+    },
+    build() {
+      // The app-wide error hook wraps everything, including global middleware
+      const middlewares = options.onError
+        ? [onError(options.onError), ...globalMiddlewares]
+        : [...globalMiddlewares];
+      if (options.onHookError) {
+        middlewares.unshift(onHookError(options.onHookError));
+      }
+
+      const notFound = wrapWithMiddleware(
+        options.notFound ?? (() => new HttpError(404).toResponse()),
+        middlewares,
+      );
+
+      return {
+        routes: applyMiddleware(mergeRoutes(...collected), ...middlewares),
+        fetch: (req, server) => notFound(req as Bun.BunRequest<string>, server),
+        error: errorToResponse,
+        websocket: createWebSocketHandler(options.websocket),
+      };
+    },
   };
+
+  return app;
 };
@@ -0,0 +1,369 @@
+// Response lifecycle hooks
+// Per-request hooks registered from anywhere in the request's context scope
+
+import type { Middleware } from ".";
+import { createContext, runWithContext, setContext, useContext } from "./store";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Hook run on the final response before it is returned to Bun.
+ * Modify its headers in place, or return a new Response to replace it.
+ */
+export type ResponseHook = (
+  res: Response,
+  // biome-ignore lint/suspicious/noConfusingVoidType: hooks that only modify headers return nothing
+) => Response | void | Promise<Response | void>;
+
+/**
+ * Hook run after the response was returned to Bun, without delaying it.
+ * The response is passed for its status and headers, its body belongs to the client.
+ */
+export type AfterHook = (res: Response) => unknown;
+
+/**
+ * Receives errors thrown by onResponse and after hooks.
+ * Runs inside the request's context scope.
+ */
+export type HookErrorHandler = (
+  error: unknown,
+  req: Request,
+) => void | Promise<void>;
+
+/**
+ * Hooks registered during a request
+ * @internal
+ */
+export interface ResponseHooks {
+  req: Request;
+  /** Work the response hooks wait for, e.g. async HTML rendering */
+  pending: Promise<unknown>[];
+  response: ResponseHook[];
+  after: AfterHook[];
+  /** Cleanup run once the response body was delivered and after hooks finished */
+  delivered: (() => unknown)[];
+  /** The final response, once the hooks were drained */
+  sent: Response | undefined;
+}
+
+/**
+ * Context holding the hooks of the current request
+ * @internal
+ */
+const ResponseHooksContext = createContext<
+  ResponseHooks,
+  "abret-response-hooks"
+>("abret-response-hooks");
+
+/**
+ * Context holding the configured hook error handler
+ * @internal
+ */
+const HookErrorContext = createContext<HookErrorHandler, "abret-hook-error">(
+  "abret-hook-error",
+);
+
+// ============================================================================
+// Registration
+// ============================================================================
+
+/**
+ * Gets the hooks of the current request
+ * @internal
+ */
+export const getResponseHooks = (caller: string): ResponseHooks => {
+  const hooks = useContext(ResponseHooksContext);
+  if (!hooks) {
+    throw new Error(
+      `${caller} must be called while handling a request. ` +
+        "Ensure you are inside a route handler, middleware or component.",
+    );
+  }
+  return hooks;
+};
+
+/**
+ * Registers a hook that runs on the final response of the current request,
+ * after every middleware, in registration order. Can be called from
+ * middleware, handlers and components rendered before the response is returned.
+ *
+ * @example
+ * ```ts
+ * const Dashboard = () => {
+ *   onResponse((res) => {
+ *     res.headers.set("Cache-Control", "private, no-store");
+ *   });
+ *   return <main>...</main>;
+ * };
+ * ```
+ */
+export const onResponse = (fn: ResponseHook): void => {
+  const hooks = getResponseHooks("onResponse");
+  if (hooks.sent) {
+    throw new Error(
+      "onResponse was called after the response was sent, use after() instead",
+    );
+  }
+  hooks.response.push(fn);
+};
+
+/**
+ * Registers fire-and-forget work that runs once the response was returned
+ * to Bun, with the request's contexts still readable. Failures go to the
+ * hook error handler (see onHookError) instead of the client.
+ *
+ * @example
+ * ```ts
+ * const deleteUser = async (req) => {
+ *   await db.users.delete(req.params.id);
+ *   after(() => audit.log("user.deleted", useContext(UserContext)));
+ *   return new Response(null, { status: 204 });
+ * };
+ * ```
+ */
+export const after = (fn: AfterHook): void => {
+  const hooks = getResponseHooks("after");
+  if (hooks.sent) {
+    const res = hooks.sent;
+    setTimeout(() => runAfterHook(hooks, fn, res), 0);
+  } else {
+    hooks.after.push(fn);
+  }
+};
+
+// ============================================================================
+// Error Reporting
+// ============================================================================
+
+/**
+ * Reports a failed hook to the configured handler, or logs it
+ * @internal
+ */
+const reportHookError = async (
+  hooks: ResponseHooks,
+  error: unknown,
+): Promise<void> => {
+  const handler = useContext(HookErrorContext);
+  if (!handler) {
+    console.error("Unhandled error in response hook", error);
+    return;
+  }
+  try {
+    await handler(error, hooks.req);
+  } catch (e) {
+    console.error("Error in hook error handler", e);
+  }
+};
+
+/**
+ * Creates a middleware that sends errors of onResponse and after hooks
+ * registered during the request to `handler`. Without one, they are logged.
+ * `createApp({ onHookError })` adds it app-wide.
+ *
+ * @example
+ * ```ts
+ * const api = createRouteGroup("/api", [
+ *   onHookError((error, req) => reporter.capture(error, { url: req.url })),
+ * ]);
+ * ```
+ */
+export const onHookError = <P extends string = string, S = undefined>(
+  handler: HookErrorHandler,
+): Middleware<P, S> => {
+  return (_req, _server, next) => {
+    setContext(HookErrorContext, handler);
+    return next();
+  };
+};
+
+// ============================================================================
+// Draining
+// ============================================================================
+
+/**
+ * Starts collecting hooks for a request, in its root context scope
+ * @internal
+ */
+export const startResponseHooks = (req: Request): void => {
+  setContext(ResponseHooksContext, {
+    req,
+    pending: [],
+    response: [],
+    after: [],
+    delivered: [],
+    sent: undefined,
+  });
+};
+
+/**
+ * Context holding the request that owns the current scope
+ * @internal
+ */
+const RequestScopeContext = createContext<Request, "abret-request">(
+  "abret-request",
+);
+
+/**
+ * Runs fn in the context scope of the request.
+ * Nested abret wrappers for the same request (e.g. app-wide middleware around a route)
+ * share a single scope, so values set by inner middleware stay visible to outer ones.
+ * `isRoot` is true only for the wrapper that created the scope, which also
+ * collects the request's response hooks and must drain them.
+ * @internal
+ */
+export const runInRequestScope = <R>(
+  req: Request,
+  fn: (isRoot: boolean) => R,
+): R => {
+  if (useContext(RequestScopeContext) === req) {
+    return fn(false);
+  }
+  return runWithContext(() => {
+    setContext(RequestScopeContext, req);
+    startResponseHooks(req);
+    return fn(true);
+  });
+};
+
+/**
+ * Makes the response hooks of the current request wait for `promise`, so
+ * state set while it runs (headers, cookies) reaches the response.
+ * Does nothing outside a request or once the response was sent.
+ * @internal
+ */
+export const waitBeforeResponse = (promise: Promise<unknown>): void => {
+  const hooks = useContext(ResponseHooksContext);
+  if (hooks && !hooks.sent) hooks.pending.push(promise);
+};
+
+/**
+ * Runs `fn` once the body of the response was consumed by the client (or
+ * cancelled) and the after hooks registered while handling the request have
+ * finished, e.g. to remove files they may still read.
+ * Runs right away outside a request or once the response was sent.
+ * @internal
+ */
+export const afterDelivery = (fn: () => unknown): void => {
+  const hooks = useContext(ResponseHooksContext);
+  if (hooks && !hooks.sent) hooks.delivered.push(fn);
+  else fn();
+};
+
+/**
+ * Wraps a body to resolve `done` once it was read to the end or cancelled
+ * @internal
+ */
+const trackBody = (
+  body: ReadableStream<Uint8Array>,
+  done: () => void,
+): ReadableStream<Uint8Array> => {
+  const reader = body.getReader();
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { done: ended, value } = await reader.read();
+        if (ended) {
+          controller.close();
+          done();
+        } else {
+          controller.enqueue(value);
+        }
+      } catch (error) {
+        controller.error(error);
+        done();
+      }
+    },
+    async cancel(reason) {
+      try {
+        await reader.cancel(reason);
+      } finally {
+        done();
+      }
+    },
+  });
+};
+
+/**
+ * Runs an after hook, reporting failures
+ * @internal
+ */
+const runAfterHook = async (
+  hooks: ResponseHooks,
+  fn: AfterHook,
+  res: Response,
+): Promise<void> => {
+  try {
+    await fn(res);
+  } catch (error) {
+    await reportHookError(hooks, error);
+  }
+};
+
+/**
+ * Marks the response as sent and schedules the after hooks, then the
+ * afterDelivery cleanup once the body was delivered and those hooks finished.
+ * Returns the response to send, its body tracked when cleanup waits on it.
+ * @internal
+ */
+const finishResponseHooks = (hooks: ResponseHooks, res: Response): Response => {
+  const cleanup = hooks.delivered.splice(0);
+  let delivered: Promise<void> = Promise.resolve();
+  if (cleanup.length > 0 && res.body) {
+    const { promise, resolve } = Promise.withResolvers<void>();
+    delivered = promise;
+    res = new Response(trackBody(res.body, resolve), {
+      status: res.status,
+      statusText: res.statusText,
+      headers: res.headers,
+    });
+  }
+
+  hooks.sent = res;
+  const pending = hooks.after.splice(0);
+  if (pending.length === 0 && cleanup.length === 0) return res;
+  // Timers keep the context scope, the hooks still see the request's contexts
+  setTimeout(async () => {
+    await Promise.all([
+      delivered,
+      ...pending.map((fn) => runAfterHook(hooks, fn, res)),
+    ]);
+    for (const fn of cleanup) runAfterHook(hooks, fn, res);
+  }, 0);
+  return res;
+};
+
+/**
+ * Runs the onResponse hooks of the current request on its final response,
+ * once pending work settled, then schedules its after hooks.
+ * Responses without hooks are returned as is.
+ * @internal
+ */
+export const drainResponseHooks = (
+  res: Response,
+): Response | Promise<Response> => {
+  const hooks = useContext(ResponseHooksContext);
+  if (!hooks) return res;
+
+  if (hooks.pending.length === 0 && hooks.response.length === 0) {
+    return finishResponseHooks(hooks, res);
+  }
+
+  return (async () => {
+    // Failures of pending work surface where it is consumed, e.g. the body stream
+    while (hooks.pending.length > 0) {
+      await Promise.allSettled(hooks.pending.splice(0));
+    }
+    let current = res;
+    // Hooks may register more hooks while running
+    for (let fn = hooks.response.shift(); fn; fn = hooks.response.shift()) {
+      try {
+        current = (await fn(current)) ?? current;
+      } catch (error) {
+        await reportHookError(hooks, error);
+      }
+    }
+    return finishResponseHooks(hooks, current);
+  })();
+};
@@ -0,0 +1,126 @@
+// Route introspection
+// Lists the routes of a routes object with the metadata recorded by createRoute
+
+import type { RouteObject } from ".";
+import { getRouteMeta, updateRouteMeta } from "./meta";
+
+/**
+ * Information about a single route
+ */
+export interface RouteInfo {
+  /** Route path as registered in Bun.serve */
+  path: string;
+  /** Explicitly defined methods, `["ALL"]` for single-handler routes */
+  methods: string[];
+  /** Names of the route-level middlewares, outermost first */
+  middleware: string[];
+  /** Prefix of the route group the route was created by */
+  group?: string;
+  /** Description set with describeRoute */
+  description?: string;
+  /** Where the route was defined (file:line:column) */
+  source?: string;
+}
+
+/**
+ * Attaches a description to every route of a route object.
+ *
+ * @example
+ * ```ts
+ * const users = describeRoute(
+ *   api("/users", { GET: listUsers, POST: createUser }),
+ *   "List and create users",
+ * );
+ * ```
+ */
+export const describeRoute = <T extends RouteObject>(
+  routes: T,
+  description: string,
+): T => {
+  for (const value of Object.values(routes)) {
+    updateRouteMeta(value, { description });
+  }
+  return routes;
+};
+
+/**
+ * Lists the routes of a routes object (usually the result of mergeRoutes
+ * or `createApp().build().routes`), in registration order.
+ *
+ * @example
+ * ```ts
+ * expect(listRoutes(routes).map((r) => r.path)).toEqual(["/", "/api/users"]);
+ * ```
+ */
+export const listRoutes = (routes: RouteObject): RouteInfo[] => {
+  return Object.entries(routes).map(([path, value]) => {
+    const meta = getRouteMeta(value);
+
+    let methods = meta?.methods as string[] | undefined;
+    if (!methods) {
+      const isMethodObject =
+        typeof value === "object" &&
+        value !== null &&
+        !(value instanceof Response) &&
+        !(value instanceof Blob);
+      methods = isMethodObject ? Object.keys(value) : ["ALL"];
+    }
+
+    return {
+      path,
+      methods,
+      middleware: (meta?.middlewares ?? []).map(
+        (middleware) => middleware.name || "anonymous",
+      ),
+      group: meta?.group,
+      description: meta?.description,
+      source: meta?.sources.join(" + "),
+    };
+  });
+};
+
+/**
+ * Formats routes as a plain text table.
+ *
+ * @example
+ * ```ts
+ * console.log(formatRoutes(routes));
+ * // METHODS    PATH        GROUP  MIDDLEWARE  DESCRIPTION
+ * // GET, POST  /api/users  /api   auth        List and create users
+ * ```
+ */
+export const formatRoutes = (routes: RouteObject | RouteInfo[]): string => {
+  const infos = Array.isArray(routes) ? routes : listRoutes(routes);
+
+  const header = ["METHODS", "PATH", "GROUP", "MIDDLEWARE", "DESCRIPTION"];
+  const rows = infos.map((info) => [
+    info.methods.join(", "),
+    info.path,
+    info.group ?? "",
+    info.middleware.join(", "),
+    info.description ?? "",
+  ]);
+
+  const widths = header.map((title, column) =>
+    Math.max(title.length, ...rows.map((row) => row[column]?.length ?? 0)),
+  );
+
+  return [header, ...rows]
+    .map((row) =>
+      row
+        .map((cell, column) => cell.padEnd(widths[column] ?? 0))
+        .join("  ")
+        .trimEnd(),
+    )
+    .join("\n");
+};
+
+/**
+ * Prints the routes table, e.g. in startup logs.
+ */
+export const printRoutes = (
+  routes: RouteObject | RouteInfo[],
+  write: (text: string) => void = console.log,
+): void => {
+  write(formatRoutes(routes));
+};
@@ -0,0 +1,73 @@
+// Route metadata registry
+// Records how each route value was defined, for conflict detection and introspection
+
+import type { Middleware } from ".";
+
+/**
+ * Metadata recorded for each route value created by abret
+ * @internal
+ */
+export interface RouteMeta {
+  path: string;
+  /** Explicitly defined methods, undefined for single-handler routes */
+  methods?: Bun.Serve.HTTPMethod[];
+  /** Route-level middlewares, outermost first */
+  middlewares: Middleware<string, any>[];
+  /** Where the route was defined (file:line:column) */
+  sources: string[];
+  /** Prefix of the route group the route was created by */
+  group?: string;
+  /** Human readable description of the route */
+  description?: string;
+  /**
+   * Original (unwrapped) handler and per-method middlewares of each method,
+   * under "ALL" for single-handler routes
+   */
+  operations: Partial<Record<Bun.Serve.HTTPMethod | "ALL", RouteOperation>>;
+}
+
+/**
+ * A single handler of a route as it was defined
+ * @internal
+ */
+export interface RouteOperation {
+  handler: unknown;
+  middlewares: Middleware<string, any>[];
+}
+
+/**
+ * Metadata keyed by the (wrapped) route value
+ * @internal
+ */
+const routeMetaRegistry = new WeakMap<object, RouteMeta>();
+
+/**
+ * Records metadata for a route value
+ * @internal
+ */
+export const setRouteMeta = (value: unknown, meta: RouteMeta): void => {
+  if (typeof value === "object" || typeof value === "function") {
+    if (value) routeMetaRegistry.set(value, meta);
+  }
+};
+
+/**
+ * Reads the metadata of a route value, if it was created by abret
+ * @internal
+ */
+export const getRouteMeta = (value: unknown): RouteMeta | undefined =>
+  (typeof value === "object" || typeof value === "function") && value
+    ? routeMetaRegistry.get(value)
+    : undefined;
+
+/**
+ * Merges fields into the metadata of a route value, if it has any
+ * @internal
+ */
+export const updateRouteMeta = (
+  value: unknown,
+  patch: Partial<RouteMeta>,
+): void => {
+  const meta = getRouteMeta(value);
+  if (meta) setRouteMeta(value, { ...meta, ...patch });
+};
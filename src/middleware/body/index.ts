@@ -0,0 +1,511 @@
+// abret/middleware/body - Request body parsing
+// Streams the body with a byte limit and parses it by Content-Type
+
+import { rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { createMiddleware, HttpError } from "../..";
+import {
+  BodyContext,
+  type BodyType,
+  type FormValue,
+  type ParsedBody,
+  setAcceptedBodyTypes,
+} from "../../body";
+import { afterDelivery } from "../../lifecycle";
+import { setContext, useContext } from "../../store";
+
+export {
+  BodyContext,
+  type BodyType,
+  type FormValue,
+  type ParsedBody,
+  type UploadedFile,
+} from "../../body";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Options for bodyParser
+ */
+export interface BodyParserOptions {
+  /**
+   * Maximum body size in bytes, enforced while reading
+   * @default 1048576 (1 MiB)
+   */
+  limit?: number;
+  /**
+   * Accepted formats, others get a 415
+   * @default ["json", "urlencoded", "multipart", "text"]
+   */
+  types?: BodyType[];
+  /**
+   * Multipart file parts larger than this many bytes are written to a temp file
+   * @default 262144 (256 KiB)
+   */
+  fileThreshold?: number;
+  /**
+   * Directory for temp files
+   * @default os.tmpdir()
+   */
+  tempDir?: string;
+}
+
+// ============================================================================
+// Context
+// ============================================================================
+
+/**
+ * Gets the body parsed by bodyParser, undefined for requests without a body.
+ * Narrow it by `type`, the JSON type can be given as a type argument.
+ *
+ * @example
+ * ```ts
+ * const createPost = () => {
+ *   const body = useBody<{ title: string }>();
+ *   if (body?.type !== "json") throw new HttpError(415);
+ *   return Response.json(await posts.create(body.data.title), { status: 201 });
+ * };
+ * ```
+ */
+export const useBody = <Json = unknown>(): ParsedBody<Json> | undefined =>
+  useContext(BodyContext) as ParsedBody<Json> | undefined;
+
+// ============================================================================
+// Reading
+// ============================================================================
+
+/**
+ * Reads a body stream, failing with a 413 as soon as it exceeds `limit`
+ * @internal
+ */
+async function* readLimited(
+  stream: ReadableStream<Uint8Array>,
+  limit: number,
+): AsyncGenerator<Uint8Array> {
+  const reader = stream.getReader();
+  let received = 0;
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) return;
+      received += value.byteLength;
+      if (received > limit) {
+        throw new HttpError(413, `Body exceeds the limit of ${limit} bytes`);
+      }
+      yield value;
+    }
+  } finally {
+    // Stops reading when the limit was hit or parsing failed
+    reader.cancel().catch(() => {});
+  }
+}
+
+/**
+ * Decodes text with the charset of the Content-Type
+ * @internal
+ */
+const createDecoder = (charset: string | undefined): TextDecoder => {
+  try {
+    return new TextDecoder(charset ?? "utf-8", { fatal: true });
+  } catch {
+    throw new HttpError(415, `Unsupported charset "${charset}"`);
+  }
+};
+
+/**
+ * Reads the whole body as text
+ * @internal
+ */
+const readText = async (
+  chunks: AsyncIterable<Uint8Array>,
+  charset: string | undefined,
+): Promise<string> => {
+  const decoder = createDecoder(charset);
+  const parts: Uint8Array[] = [];
+  for await (const chunk of chunks) parts.push(chunk);
+  try {
+    return decoder.decode(Buffer.concat(parts));
+  } catch {
+    throw new HttpError(400, "Body is not valid text");
+  }
+};
+
+/**
+ * Adds a value to a form object, repeated keys become arrays
+ * @internal
+ */
+const appendValue = <V>(
+  data: Record<string, V | V[]>,
+  key: string,
+  value: V,
+) => {
+  const existing = data[key];
+  if (existing === undefined) data[key] = value;
+  else if (Array.isArray(existing)) existing.push(value);
+  else data[key] = [existing, value];
+};
+
+// ============================================================================
+// Multipart
+// ============================================================================
+
+/**
+ * Headers of a part are rejected above this size
+ * @internal
+ */
+const MAX_PART_HEADERS = 16 * 1024;
+
+/**
+ * A part being received
+ * @internal
+ */
+interface PartState {
+  name: string;
+  filename?: string;
+  type: string;
+  size: number;
+  chunks: Uint8Array[];
+  path?: string;
+  writer?: Bun.FileSink;
+}
+
+/**
+ * Reads a parameter of the Content-Disposition header
+ * @internal
+ */
+const dispositionParam = (
+  header: string,
+  param: string,
+): string | undefined => {
+  const match = new RegExp(`;\\s*${param}="((?:[^"\\\\]|\\\\.)*)"`, "i").exec(
+    header,
+  );
+  if (match) return match[1]?.replace(/\\(.)/g, "$1");
+  return new RegExp(`;\\s*${param}=([^;\\s]+)`, "i").exec(header)?.[1];
+};
+
+/**
+ * Parses the headers of a part
+ * @internal
+ */
+const parsePartHeaders = (raw: string): PartState => {
+  const headers = new Headers();
+  for (const line of raw.split("\r\n")) {
+    const separator = line.indexOf(":");
+    if (separator > 0) {
+      headers.append(
+        line.slice(0, separator).trim(),
+        line.slice(separator + 1),
+      );
+    }
+  }
+
+  const disposition = headers.get("Content-Disposition") ?? "";
+  const name = dispositionParam(disposition, "name");
+  if (name === undefined) {
+    throw new HttpError(400, "Multipart part without a name");
+  }
+  return {
+    name,
+    filename: dispositionParam(disposition, "filename"),
+    type: headers.get("Content-Type") ?? "application/octet-stream",
+    size: 0,
+    chunks: [],
+  };
+};
+
+/**
+ * Parses a multipart body incrementally. File parts above `fileThreshold`
+ * are written to temp files, whose paths are pushed to `tempFiles`
+ * as soon as they are created.
+ * @internal
+ */
+const parseMultipart = async (
+  chunks: AsyncIterable<Uint8Array>,
+  boundary: string,
+  options: { fileThreshold: number; tempDir: string; tempFiles: string[] },
+): Promise<Record<string, FormValue | FormValue[]>> => {
+  const data: Record<string, FormValue | FormValue[]> = {};
+  const delimiter = Buffer.from(`--${boundary}`);
+  const partDelimiter = Buffer.from(`\r\n--${boundary}`);
+  const decoder = new TextDecoder();
+
+  // Reassigned inside process, so not narrowed by the checks below
+  let state = "preamble" as
+    | "preamble"
+    | "delimiter"
+    | "headers"
+    | "body"
+    | "done";
+  let buffer = Buffer.alloc(0);
+  let part: PartState | undefined;
+
+  const write = (current: PartState, bytes: Uint8Array) => {
+    if (bytes.byteLength === 0) return;
+    current.size += bytes.byteLength;
+    if (current.writer) {
+      current.writer.write(bytes);
+      return;
+    }
+    current.chunks.push(bytes);
+    if (
+      current.filename !== undefined &&
+      current.size > options.fileThreshold
+    ) {
+      current.path = path.join(
+        options.tempDir,
+        `abret-upload-${crypto.randomUUID()}`,
+      );
+      options.tempFiles.push(current.path);
+      current.writer = Bun.file(current.path).writer();
+      for (const chunk of current.chunks.splice(0)) current.writer.write(chunk);
+    }
+  };
+
+  const finish = async (current: PartState) => {
+    if (current.filename === undefined) {
+      appendValue(
+        data,
+        current.name,
+        decoder.decode(Buffer.concat(current.chunks)),
+      );
+      return;
+    }
+    let file: Blob;
+    if (current.writer && current.path) {
+      await current.writer.end();
+      file = Bun.file(current.path, { type: current.type });
+    } else {
+      file = new File([Buffer.concat(current.chunks)], current.filename, {
+        type: current.type,
+      });
+    }
+    appendValue(data, current.name, {
+      filename: current.filename,
+      type: current.type,
+      size: current.size,
+      path: current.path,
+      file,
+    });
+  };
+
+  const process = async (): Promise<void> => {
+    while (true) {
+      if (state === "preamble") {
+        const index = buffer.indexOf(delimiter);
+        if (index === -1) {
+          buffer = buffer.subarray(
+            Math.max(0, buffer.length - delimiter.length),
+          );
+          return;
+        }
+        buffer = buffer.subarray(index + delimiter.length);
+        state = "delimiter";
+      } else if (state === "delimiter") {
+        if (buffer.length < 2) return;
+        const marker = buffer.subarray(0, 2).toString();
+        if (marker === "--") {
+          state = "done";
+          return;
+        }
+        if (marker !== "\r\n") {
+          throw new HttpError(400, "Malformed multipart body");
+        }
+        buffer = buffer.subarray(2);
+        state = "headers";
+      } else if (state === "headers") {
+        const index = buffer.indexOf("\r\n\r\n");
+        if (index === -1) {
+          if (buffer.length > MAX_PART_HEADERS) {
+            throw new HttpError(400, "Multipart part headers are too large");
+          }
+          return;
+        }
+        part = parsePartHeaders(buffer.subarray(0, index).toString());
+        buffer = buffer.subarray(index + 4);
+        state = "body";
+      } else if (state === "body" && part) {
+        const index = buffer.indexOf(partDelimiter);
+        if (index === -1) {
+          // Keep a possible partial delimiter at the end for the next chunk
+          const safe = buffer.length - partDelimiter.length + 1;
+          if (safe > 0) {
+            write(part, buffer.subarray(0, safe));
+            buffer = buffer.subarray(safe);
+          }
+          return;
+        }
+        write(part, buffer.subarray(0, index));
+        await finish(part);
+        part = undefined;
+        buffer = buffer.subarray(index + partDelimiter.length);
+        state = "delimiter";
+      } else {
+        return;
+      }
+    }
+  };
+
+  for await (const chunk of chunks) {
+    if (state === "done") continue;
+    // Copy, the parts keep references to slices of the buffer
+    buffer = Buffer.concat([buffer, chunk]);
+    await process();
+  }
+
+  if (state !== "done") {
+    await part?.writer?.end();
+    throw new HttpError(400, "Malformed multipart body");
+  }
+  return data;
+};
+
+// ============================================================================
+// Middleware
+// ============================================================================
+
+/**
+ * Default body size limit
+ * @internal
+ */
+const DEFAULT_LIMIT = 1024 * 1024;
+
+/**
+ * Finds the body format of a media type
+ * @internal
+ */
+const detectType = (mediaType: string): BodyType | undefined => {
+  if (mediaType === "application/json" || mediaType.endsWith("+json")) {
+    return "json";
+  }
+  if (mediaType === "application/x-www-form-urlencoded") return "urlencoded";
+  if (mediaType === "multipart/form-data") return "multipart";
+  if (mediaType.startsWith("text/")) return "text";
+  return undefined;
+};
+
+/**
+ * Reads a parameter of the Content-Type header
+ * @internal
+ */
+const contentTypeParam = (header: string, param: string): string | undefined =>
+  new RegExp(`;\\s*${param}=(?:"([^"]+)"|([^;\\s]+))`, "i")
+    .exec(header)
+    ?.slice(1)
+    .find(Boolean);
+
+/**
+ * Middleware parsing JSON, urlencoded, multipart and text bodies into
+ * BodyContext (read it with useBody). The size limit is enforced while the
+ * body streams in, multipart file parts above `fileThreshold` go to temp
+ * files deleted once the response body was delivered and after hooks finished. Failures are thrown as HttpError:
+ * 413 for bodies over the limit, 415 for other formats, 400 for malformed ones.
+ *
+ * `validate` uses the parsed body, so both can be used on the same route.
+ *
+ * @example
+ * ```ts
+ * const upload = createRoute(
+ *   "/avatars",
+ *   {
+ *     POST: async () => {
+ *       const body = useBody();
+ *       if (body?.type !== "multipart") throw new HttpError(415);
+ *       const avatar = body.data.avatar as UploadedFile;
+ *       await Bun.write(`./avatars/${crypto.randomUUID()}`, avatar.file);
+ *       return new Response(null, { status: 201 });
+ *     },
+ *   },
+ *   bodyParser({ limit: 10 * 1024 * 1024, types: ["multipart"] }),
+ * );
+ * ```
+ */
+export const bodyParser = (options: BodyParserOptions = {}) => {
+  const {
+    limit = DEFAULT_LIMIT,
+    types = ["json", "urlencoded", "multipart", "text"],
+    fileThreshold = 256 * 1024,
+    tempDir = tmpdir(),
+  } = options;
+  const accepted = new Set(types);
+
+  const middleware = createMiddleware(
+    async (req, _server, next) => {
+      if (!req.body || req.method === "GET" || req.method === "HEAD") {
+        return next();
+      }
+
+      const contentType = req.headers.get("Content-Type") ?? "";
+      const mediaType = contentType.split(";")[0]?.trim().toLowerCase() ?? "";
+      const type = detectType(mediaType);
+      if (!type || !accepted.has(type)) {
+        throw new HttpError(
+          415,
+          mediaType
+            ? `Unsupported content type "${mediaType}"`
+            : "Missing content type",
+        );
+      }
+
+      const length = Number(req.headers.get("Content-Length"));
+      if (length > limit) {
+        throw new HttpError(413, `Body exceeds the limit of ${limit} bytes`);
+      }
+
+      const chunks = readLimited(req.body, limit);
+      const charset = contentTypeParam(contentType, "charset");
+      let parsed: ParsedBody;
+
+      if (type === "multipart") {
+        const boundary = contentTypeParam(contentType, "boundary");
+        if (!boundary) throw new HttpError(400, "Missing multipart boundary");
+
+        const tempFiles: string[] = [];
+        // Temp files are removed once the response was delivered and after
+        // hooks finished, or right away on failure
+        const cleanup = () =>
+          Promise.all(tempFiles.map((file) => rm(file, { force: true })));
+        try {
+          parsed = {
+            type,
+            data: await parseMultipart(chunks, boundary, {
+              fileThreshold,
+              tempDir,
+              tempFiles,
+            }),
+          };
+        } catch (error) {
+          await cleanup();
+          throw error;
+        }
+        if (tempFiles.length > 0) afterDelivery(cleanup);
+      } else {
+        const text = await readText(chunks, charset);
+        if (type === "json") {
+          try {
+            parsed = { type, data: text ? JSON.parse(text) : undefined };
+          } catch {
+            throw new HttpError(400, "Invalid JSON body");
+          }
+        } else if (type === "urlencoded") {
+          const data: Record<string, string | string[]> = {};
+          for (const [key, value] of new URLSearchParams(text)) {
+            appendValue(data, key, value);
+          }
+          parsed = { type, data };
+        } else {
+          parsed = { type, data: text };
+        }
+      }
+
+      setContext(BodyContext, parsed);
+      return next();
+    },
+    { name: "bodyParser", provides: [BodyContext] },
+  );
+  setAcceptedBodyTypes(middleware, types);
+  return middleware;
+};
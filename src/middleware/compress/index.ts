@@ -0,0 +1,263 @@
+// abret/middleware/compress - Response compression
+// Negotiates Accept-Encoding and compresses response bodies as they stream
+
+import { Duplex } from "node:stream";
+import * as zlib from "node:zlib";
+import { createMiddleware, onResponse } from "../..";
+import { appendVary } from "../../headers";
+import { readAvailable } from "../../streams";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Content codings the middleware can produce
+ */
+export type CompressionEncoding = "br" | "zstd" | "gzip" | "deflate";
+
+/**
+ * Options for compress
+ */
+export interface CompressOptions {
+  /**
+   * Encodings offered, by preference when the client accepts several
+   * equally. `zstd` is ignored when the runtime doesn't support it.
+   * @default ["br", "zstd", "gzip", "deflate"]
+   */
+  encodings?: CompressionEncoding[];
+  /**
+   * Bodies smaller than this many bytes are sent as is. Bodies without a
+   * `Content-Length` are sized from what is already buffered; streams
+   * still producing data are compressed as they stream.
+   * @default 1024
+   */
+  threshold?: number;
+  /**
+   * Compression level per encoding. Defaults favour speed, since bodies
+   * are compressed on every request.
+   * @default { br: 4, zstd: 3, gzip: 6, deflate: 6 }
+   */
+  level?: Partial<Record<CompressionEncoding, number>>;
+  /**
+   * Decides from the `Content-Type` whether a response is worth compressing.
+   * Defaults to text (except server-sent events), JSON, JavaScript, XML, SVG
+   * and WebAssembly; responses without a `Content-Type` are sent as is.
+   */
+  filter?: (contentType: string) => boolean;
+}
+
+// ============================================================================
+// Negotiation
+// ============================================================================
+
+/**
+ * Whether the runtime can produce zstd
+ * @internal
+ */
+const ZSTD_SUPPORTED = typeof zlib.createZstdCompress === "function";
+
+/**
+ * Content types compressed by default. Images, media, fonts and archives
+ * are already compressed. Server-sent events are excluded by isCompressible.
+ * @internal
+ */
+const COMPRESSIBLE =
+  /^(text\/|application\/(?:[\w.+-]+\+)?(?:json|xml)\b|application\/(?:javascript|ecmascript|wasm|x-javascript)\b|image\/svg\+xml\b)/i;
+
+/**
+ * Default filter, matching COMPRESSIBLE except server-sent events, which
+ * proxies and clients expect uncompressed
+ * @internal
+ */
+const isCompressible = (contentType: string): boolean =>
+  COMPRESSIBLE.test(contentType) && !/^text\/event-stream\b/i.test(contentType);
+
+/**
+ * Picks the encoding with the highest q-value in `Accept-Encoding`,
+ * ties going to the first offered one
+ * @internal
+ */
+const negotiate = (
+  header: string | null,
+  offered: CompressionEncoding[],
+): CompressionEncoding | undefined => {
+  if (!header) return undefined;
+
+  const weights = new Map<string, number>();
+  for (const part of header.split(",")) {
+    const [name, ...params] = part.trim().toLowerCase().split(";");
+    if (!name) continue;
+    const q = params
+      .map((param) => param.trim())
+      .find((param) => param.startsWith("q="));
+    const weight = q ? Number(q.slice(2)) : 1;
+    weights.set(name, Number.isNaN(weight) ? 0 : weight);
+  }
+
+  let best: CompressionEncoding | undefined;
+  let bestWeight = 0;
+  for (const encoding of offered) {
+    const weight = weights.get(encoding) ?? weights.get("*") ?? 0;
+    if (weight > bestWeight) {
+      best = encoding;
+      bestWeight = weight;
+    }
+  }
+  return best;
+};
+
+// ============================================================================
+// Streams
+// ============================================================================
+
+/**
+ * Creates a compressor flushing after every chunk, so streamed parts
+ * reach the client as soon as they are rendered
+ * @internal
+ */
+const createCompressor = (
+  encoding: CompressionEncoding,
+  level: number,
+): zlib.Zlib & Duplex => {
+  const { constants } = zlib;
+  switch (encoding) {
+    case "br":
+      return zlib.createBrotliCompress({
+        flush: constants.BROTLI_OPERATION_FLUSH,
+        params: { [constants.BROTLI_PARAM_QUALITY]: level },
+      });
+    case "zstd":
+      return zlib.createZstdCompress({
+        flush: constants.ZSTD_e_flush,
+        params: { [constants.ZSTD_c_compressionLevel]: level },
+      });
+    case "gzip":
+      return zlib.createGzip({ flush: constants.Z_SYNC_FLUSH, level });
+    case "deflate":
+      return zlib.createDeflate({ flush: constants.Z_SYNC_FLUSH, level });
+  }
+};
+
+// ============================================================================
+// Middleware
+// ============================================================================
+
+/**
+ * Default compression levels, tuned for on-the-fly compression
+ * @internal
+ */
+const DEFAULT_LEVELS: Record<CompressionEncoding, number> = {
+  br: 4,
+  zstd: 3,
+  gzip: 6,
+  deflate: 6,
+};
+
+/**
+ * Statuses whose responses never have a body
+ * @internal
+ */
+const NO_BODY_STATUSES = new Set([101, 204, 205, 304]);
+
+/**
+ * Middleware compressing responses with the best encoding the client
+ * accepts. Bodies are compressed while they stream, each chunk as soon as
+ * it arrives. Bodies under `threshold` (from `Content-Length`, or read when
+ * already buffered, like strings and `Response.json()`), already-compressed
+ * content types, server-sent events, ranges and `Cache-Control: no-transform`
+ * responses are sent as is. Bodies are encoded last, after the onResponse
+ * hooks of every middleware, so etag() hashes the original bytes wherever
+ * it is registered.
+ *
+ * Compressed responses get `Content-Encoding` and `Vary: Accept-Encoding`,
+ * lose their `Content-Length`, and strong `ETag`s become weak, since the
+ * bytes now differ from the original representation.
+ *
+ * @example
+ * ```ts
+ * const app = createApp({
+ *   middleware: [compress({ encodings: ["br", "gzip"], threshold: 2048 })],
+ * });
+ * ```
+ */
+export const compress = (options: CompressOptions = {}) => {
+  const {
+    encodings = ["br", "zstd", "gzip", "deflate"],
+    threshold = 1024,
+    level = {},
+    filter = isCompressible,
+  } = options;
+  const offered = encodings.filter(
+    (encoding) => encoding !== "zstd" || ZSTD_SUPPORTED,
+  );
+  const levels = { ...DEFAULT_LEVELS, ...level };
+
+  return createMiddleware(
+    async (req, _server, next) => {
+      const response = await next();
+
+      // Registered once the handler ran, and again from there, so it
+      // encodes the final body after the hooks of every other middleware,
+      // etag's included
+      onResponse(() =>
+        onResponse(async (res) => {
+          const { headers } = res;
+          if (
+            !res.body ||
+            req.method === "HEAD" ||
+            NO_BODY_STATUSES.has(res.status) ||
+            res.status === 206 ||
+            headers.has("Content-Encoding") ||
+            headers.has("Content-Range") ||
+            /\bno-transform\b/i.test(headers.get("Cache-Control") ?? "") ||
+            !filter(headers.get("Content-Type") ?? "")
+          ) {
+            return;
+          }
+          const init = {
+            status: res.status,
+            statusText: res.statusText,
+            headers,
+          };
+          const length = headers.get("Content-Length");
+          if (length !== null && Number(length) < threshold) return;
+
+          // Strings, JSON and blobs have no Content-Length yet, size them from
+          // what is buffered. Streams still producing data aren't waited on.
+          let body: ReadableStream<Uint8Array> = res.body;
+          if (length === null) {
+            const start = await readAvailable(res.body, threshold);
+            if (start.bytes && start.bytes.byteLength < threshold) {
+              return new Response(start.bytes, init);
+            }
+            body = start.stream;
+          }
+
+          // The representation depends on the header from here on
+          appendVary(headers, "Accept-Encoding");
+          const encoding = negotiate(
+            req.headers.get("Accept-Encoding"),
+            offered,
+          );
+          if (!encoding)
+            return body === res.body ? undefined : new Response(body, init);
+
+          headers.set("Content-Encoding", encoding);
+          headers.delete("Content-Length");
+          const etag = headers.get("ETag");
+          if (etag && !etag.startsWith("W/")) headers.set("ETag", `W/${etag}`);
+
+          // node:stream/web types don't line up with the global stream types
+          const compressor = Duplex.toWeb(
+            createCompressor(encoding, levels[encoding]),
+          ) as unknown as ReadableWritablePair<Uint8Array, Uint8Array>;
+          return new Response(body.pipeThrough(compressor), init);
+        }),
+      );
+
+      return response;
+    },
+    { name: "compress" },
+  );
+};
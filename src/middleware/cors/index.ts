@@ -0,0 +1,189 @@
+// abret/middleware/cors - Cross-Origin Resource Sharing
+// Answers preflight requests and adds CORS headers to every response
+
+import { createMiddleware, type Middleware, onResponse } from "../..";
+import { appendVary } from "../../headers";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * An allowed origin: an exact origin, a pattern, or a function deciding per request
+ */
+export type CorsOrigin =
+  | string
+  | RegExp
+  | ((origin: string, req: Request) => boolean | Promise<boolean>);
+
+/**
+ * Options for cors
+ */
+export interface CorsOptions {
+  /**
+   * Allowed origins. `"*"` allows any origin; with `credentials`,
+   * the request's origin is echoed instead since browsers reject `*` there.
+   * @default "*"
+   */
+  origin?: CorsOrigin | CorsOrigin[];
+  /**
+   * Methods allowed in preflight responses
+   * @default ["GET", "HEAD", "PUT", "POST", "DELETE", "PATCH"]
+   */
+  methods?: string[];
+  /**
+   * Request headers allowed in preflight responses.
+   * Defaults to the headers the browser asks for.
+   */
+  allowedHeaders?: string[];
+  /**
+   * Response headers readable by the browser
+   */
+  exposedHeaders?: string[];
+  /**
+   * Allows cookies and authorization headers
+   * @default false
+   */
+  credentials?: boolean;
+  /**
+   * How long browsers may cache preflight responses, in seconds
+   */
+  maxAge?: number;
+}
+
+// ============================================================================
+// Origin Matching
+// ============================================================================
+
+/**
+ * Default methods allowed in preflight responses
+ * @internal
+ */
+const DEFAULT_METHODS = ["GET", "HEAD", "PUT", "POST", "DELETE", "PATCH"];
+
+/**
+ * Checks the request's origin against the allowlist
+ * @internal
+ */
+const isAllowedOrigin = async (
+  allowed: CorsOrigin[],
+  origin: string,
+  req: Request,
+): Promise<boolean> => {
+  for (const entry of allowed) {
+    if (typeof entry === "string") {
+      if (entry === "*" || entry === origin) return true;
+    } else if (entry instanceof RegExp) {
+      entry.lastIndex = 0;
+      if (entry.test(origin)) return true;
+    } else if (await entry(origin, req)) {
+      return true;
+    }
+  }
+  return false;
+};
+
+// ============================================================================
+// Middleware
+// ============================================================================
+
+/**
+ * Middleware adding CORS headers. Preflight requests (`OPTIONS` with
+ * `Access-Control-Request-Method`) are answered with a `204` without reaching
+ * the handler, so any route it is attached to, including single-handler and
+ * method-object routes, answers them. Other requests get the headers on their
+ * final response, including error responses.
+ *
+ * Put it before middleware rejecting requests (e.g. auth), since browsers
+ * send preflights without credentials.
+ *
+ * @example
+ * ```ts
+ * const api = createRouteGroup("/api", [
+ *   cors({
+ *     origin: ["https://app.example.com", /\.example\.com$/],
+ *     credentials: true,
+ *     exposedHeaders: ["X-Request-Id"],
+ *     maxAge: 600,
+ *   }),
+ *   auth,
+ * ]);
+ * ```
+ */
+export const cors = (options: CorsOptions = {}): Middleware => {
+  const {
+    origin = "*",
+    methods = DEFAULT_METHODS,
+    allowedHeaders,
+    exposedHeaders = [],
+    credentials = false,
+    maxAge,
+  } = options;
+  const allowed = Array.isArray(origin) ? origin : [origin];
+  const allowsAny = !credentials && allowed.length === 1 && allowed[0] === "*";
+
+  // Headers shared by preflight and actual responses
+  const applyOriginHeaders = (headers: Headers, allowOrigin: string | null) => {
+    // The allowed origin depends on the request, caches must key on it
+    if (!allowsAny) appendVary(headers, "Origin");
+    if (!allowOrigin) return;
+    headers.set("Access-Control-Allow-Origin", allowOrigin);
+    if (credentials) headers.set("Access-Control-Allow-Credentials", "true");
+  };
+
+  return createMiddleware(
+    async (req, _server, next) => {
+      const requestOrigin = req.headers.get("Origin");
+      let allowOrigin: string | null = null;
+      if (allowsAny) {
+        allowOrigin = "*";
+      } else if (
+        requestOrigin &&
+        (await isAllowedOrigin(allowed, requestOrigin, req))
+      ) {
+        allowOrigin = requestOrigin;
+      }
+
+      const isPreflight =
+        req.method === "OPTIONS" &&
+        requestOrigin !== null &&
+        req.headers.has("Access-Control-Request-Method");
+
+      if (isPreflight) {
+        const headers = new Headers();
+        applyOriginHeaders(headers, allowOrigin);
+        if (allowOrigin) {
+          headers.set("Access-Control-Allow-Methods", methods.join(", "));
+          const requestedHeaders = req.headers.get(
+            "Access-Control-Request-Headers",
+          );
+          if (allowedHeaders) {
+            headers.set(
+              "Access-Control-Allow-Headers",
+              allowedHeaders.join(", "),
+            );
+          } else if (requestedHeaders) {
+            headers.set("Access-Control-Allow-Headers", requestedHeaders);
+            appendVary(headers, "Access-Control-Request-Headers");
+          }
+          if (maxAge !== undefined) {
+            headers.set("Access-Control-Max-Age", String(maxAge));
+          }
+        }
+        return new Response(null, { status: 204, headers });
+      }
+
+      onResponse((res) => {
+        applyOriginHeaders(res.headers, allowOrigin);
+        if (allowOrigin && exposedHeaders.length > 0) {
+          res.headers.set(
+            "Access-Control-Expose-Headers",
+            exposedHeaders.join(", "),
+          );
+        }
+      });
+      return next();
+    },
+    { name: "cors" },
+  );
+};
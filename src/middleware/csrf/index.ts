@@ -0,0 +1,321 @@
+// abret/middleware/csrf - Cross-Site Request Forgery protection
+// Checks the origin and a token on unsafe requests, and adds the token to rendered forms
+
+import { randomBytes, timingSafeEqual } from "node:crypto";
+import {
+  type CookieOptions,
+  createMiddleware,
+  getCookie,
+  HttpError,
+  setCookie,
+} from "../..";
+import { BodyContext } from "../../body";
+import { transformElements, VNode } from "../../html";
+import { waitBeforeResponse } from "../../lifecycle";
+import { SessionContext } from "../../session";
+import { createContext, setContext, useContext } from "../../store";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Options for csrf
+ */
+export interface CsrfOptions {
+  /**
+   * Where the expected token is kept: `"double-submit"` in a cookie,
+   * `"synchronizer"` in the session (requires the session middleware)
+   * @default "double-submit"
+   */
+  mode?: "double-submit" | "synchronizer";
+  /**
+   * Form field carrying the token
+   * @default "_csrf"
+   */
+  field?: string;
+  /**
+   * Header carrying the token, for scripts
+   * @default "X-CSRF-Token"
+   */
+  header?: string;
+  /**
+   * Cookie holding the token in double-submit mode
+   * @default "csrf_token"
+   */
+  cookieName?: string;
+  /**
+   * Attributes of the token cookie. Not httpOnly, so scripts can send it back.
+   */
+  cookie?: CookieOptions;
+  /**
+   * Session key holding the token in synchronizer mode
+   * @default "csrfToken"
+   */
+  sessionKey?: string;
+  /**
+   * Other origins allowed to send unsafe requests, e.g. `https://admin.example.com`.
+   * The app's own origin comes from the request URL, which behind a
+   * TLS-terminating proxy is the internal one (e.g. `http://localhost:3000`):
+   * list the public origin here, or set `trustProxy`.
+   */
+  trustedOrigins?: string[];
+  /**
+   * Takes the app's origin from the `X-Forwarded-Proto` and
+   * `X-Forwarded-Host` headers. Only enable it behind a proxy that sets them.
+   * @default false
+   */
+  trustProxy?: boolean;
+  /**
+   * Adds the token as a hidden input to `<form method="post">` elements
+   * rendered with html
+   * @default true
+   */
+  injectForms?: boolean;
+}
+
+// ============================================================================
+// Context
+// ============================================================================
+
+/**
+ * Returns the CSRF token of the current request, issuing one if needed
+ */
+export const CsrfContext = createContext<() => string, "abret-csrf">(
+  "abret-csrf",
+);
+
+/**
+ * Gets the CSRF token of the current request, e.g. for a meta tag read by
+ * scripts. Throws when the csrf middleware didn't run.
+ *
+ * @example
+ * ```ts
+ * const Head = () => <meta name="csrf-token" content={useCsrfToken()} />;
+ * ```
+ */
+export const useCsrfToken = (): string =>
+  useContext(CsrfContext, { required: true })();
+
+// ============================================================================
+// Checks
+// ============================================================================
+
+/**
+ * Methods that don't need protection
+ * @internal
+ */
+const SAFE_METHODS = new Set(["GET", "HEAD", "OPTIONS", "TRACE"]);
+
+/**
+ * Tokens are 32 random bytes, base64url encoded
+ * @internal
+ */
+const VALID_TOKEN = /^[\w-]{43}$/;
+
+/**
+ * Origin the client sees, from the forwarded headers when a proxy is trusted
+ * @internal
+ */
+const requestOrigin = (req: Request, trustProxy: boolean): string => {
+  const url = new URL(req.url);
+  if (!trustProxy) return url.origin;
+
+  // Proxies chaining the headers list the client-facing value first
+  const forwarded = (name: string) =>
+    req.headers.get(name)?.split(",")[0]?.trim() || undefined;
+  const proto = forwarded("X-Forwarded-Proto") ?? url.protocol.slice(0, -1);
+  const host = forwarded("X-Forwarded-Host") ?? url.host;
+  return `${proto}://${host}`;
+};
+
+/**
+ * Checks that an unsafe request comes from the app's origin or a trusted one,
+ * using `Sec-Fetch-Site` and `Origin` when the browser sends them
+ * @internal
+ */
+const isSameOrigin = (
+  req: Request,
+  appOrigin: string,
+  trusted: Set<string>,
+): boolean => {
+  const origin = req.headers.get("Origin");
+  if (origin && trusted.has(origin)) return true;
+
+  const site = req.headers.get("Sec-Fetch-Site");
+  if (site && site !== "same-origin" && site !== "none") return false;
+  return !origin || origin === appOrigin;
+};
+
+/**
+ * Reads the token sent with a request, from the header or the form body
+ * @internal
+ */
+const readSubmittedToken = async (
+  req: Request,
+  header: string,
+  field: string,
+): Promise<string | undefined> => {
+  const fromHeader = req.headers.get(header);
+  if (fromHeader) return fromHeader;
+
+  const parsed = useContext(BodyContext);
+  if (parsed) {
+    if (parsed.type !== "urlencoded" && parsed.type !== "multipart") {
+      return undefined;
+    }
+    const value = parsed.data[field];
+    return typeof value === "string" ? value : undefined;
+  }
+
+  const contentType = req.headers.get("Content-Type") ?? "";
+  if (
+    !contentType.includes("application/x-www-form-urlencoded") &&
+    !contentType.includes("multipart/form-data")
+  ) {
+    return undefined;
+  }
+  try {
+    // A clone, so the handler can still read the body
+    const value = (await req.clone().formData()).get(field);
+    return typeof value === "string" ? value : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Compares tokens in constant time
+ * @internal
+ */
+const tokensMatch = (expected: string, actual: string): boolean => {
+  const a = Buffer.from(expected);
+  const b = Buffer.from(actual);
+  return a.length === b.length && timingSafeEqual(a, b);
+};
+
+/**
+ * Whether a form posts to the app itself, the token must not leak elsewhere
+ * @internal
+ */
+const postsToOrigin = (action: unknown, origin: string): boolean => {
+  if (action === undefined || action === null || action === "") return true;
+  try {
+    return new URL(String(action), origin).origin === origin;
+  } catch {
+    return false;
+  }
+};
+
+// ============================================================================
+// Middleware
+// ============================================================================
+
+/**
+ * Middleware protecting unsafe requests (POST, PUT, PATCH, DELETE) against
+ * CSRF. They are rejected with a 403 when `Sec-Fetch-Site` or `Origin` show
+ * another origin, or when the token sent in the form field or header doesn't
+ * match the expected one. `<form method="post">` elements rendered with html
+ * get the token as a hidden input.
+ *
+ * The expected token lives in a cookie (double-submit) or, in synchronizer
+ * mode, in the session. It is issued the first time it is needed.
+ *
+ * @example
+ * ```ts
+ * const app = createApp({
+ *   middleware: [session(), csrf({ mode: "synchronizer" })],
+ * });
+ *
+ * const Comment = () => (
+ *   <form method="post" action="/comments">
+ *     <textarea name="body" />
+ *   </form>
+ * );
+ * // <form method="post" action="/comments"><input type="hidden" name="_csrf" value="..." />...
+ * ```
+ */
+export const csrf = (options: CsrfOptions = {}) => {
+  const {
+    mode = "double-submit",
+    field = "_csrf",
+    header = "X-CSRF-Token",
+    cookieName = "csrf_token",
+    cookie = {},
+    sessionKey = "csrfToken",
+    trustedOrigins = [],
+    trustProxy = false,
+    injectForms = true,
+  } = options;
+  const trusted = new Set(trustedOrigins);
+
+  return createMiddleware(
+    async (req, _server, next) => {
+      const origin = requestOrigin(req, trustProxy);
+      const session =
+        mode === "synchronizer" ? useContext(SessionContext) : undefined;
+      if (mode === "synchronizer" && !session) {
+        throw new Error(
+          "csrf synchronizer mode requires the session middleware to run first",
+        );
+      }
+
+      const stored = session
+        ? await session.get(sessionKey)
+        : getCookie(cookieName);
+      let token =
+        typeof stored === "string" && VALID_TOKEN.test(stored)
+          ? stored
+          : undefined;
+
+      const issue = (): string => {
+        if (token) return token;
+        const issued = randomBytes(32).toString("base64url");
+        token = issued;
+        if (session) {
+          waitBeforeResponse(session.set(sessionKey, issued));
+        } else {
+          setCookie(cookieName, issued, { sameSite: "lax", ...cookie });
+        }
+        return issued;
+      };
+
+      if (!SAFE_METHODS.has(req.method)) {
+        if (!isSameOrigin(req, origin, trusted)) {
+          throw new HttpError(403, "Cross-origin request blocked");
+        }
+        const submitted = await readSubmittedToken(req, header, field);
+        if (!token || !submitted || !tokensMatch(token, submitted)) {
+          throw new HttpError(403, "Invalid CSRF token");
+        }
+      }
+
+      setContext(CsrfContext, issue);
+      if (injectForms) {
+        transformElements((tag, props) => {
+          if (tag !== "form") return undefined;
+          if (String(props.method ?? "").toLowerCase() !== "post") {
+            return undefined;
+          }
+          if (!postsToOrigin(props.action, origin)) return undefined;
+
+          const input = new VNode(
+            "input",
+            { type: "hidden", name: field, value: issue() },
+            [],
+          );
+          const children = props.children ?? [];
+          return {
+            ...props,
+            children: [
+              input,
+              ...(Array.isArray(children) ? children : [children]),
+            ],
+          };
+        });
+      }
+      return next();
+    },
+    { name: "csrf", provides: [CsrfContext] },
+  );
+};
@@ -0,0 +1,298 @@
+// abret/middleware/etag - ETags and conditional requests
+// Hashes buffered responses and answers If-None-Match, If-Modified-Since and If-Match
+
+import { createMiddleware, HttpError, onResponse } from "../..";
+import { HTMLResponse } from "../../html";
+import { readAvailable } from "../../streams";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Options for etag
+ */
+export interface ETagOptions {
+  /**
+   * Sends weak ETags (`W/"..."`), for responses whose bytes may vary
+   * while meaning the same, e.g. when compressed later
+   * @default false
+   */
+  weak?: boolean;
+  /**
+   * Bodies up to this many bytes are hashed. Larger bodies are sent
+   * without an ETag.
+   * @default 1048576 (1 MiB)
+   */
+  maxSize?: number;
+}
+
+/**
+ * Validators of the current representation of a resource
+ */
+export interface Validators {
+  /** Its ETag, e.g. from createETag */
+  etag?: string | null;
+  /** When it last changed */
+  lastModified?: Date | string | number | null;
+}
+
+// ============================================================================
+// ETags
+// ============================================================================
+
+/**
+ * Creates an ETag from the bytes of a representation, using `Bun.hash`
+ *
+ * @example
+ * ```ts
+ * const etag = createETag(JSON.stringify(post));
+ * // "1a-8f3c2d9e0b7a6f41"
+ * ```
+ */
+export const createETag = (
+  data: string | Uint8Array,
+  options: { weak?: boolean } = {},
+): string => {
+  const size =
+    typeof data === "string" ? Buffer.byteLength(data) : data.byteLength;
+  const tag = `"${size.toString(16)}-${Bun.hash(data).toString(16)}"`;
+  return options.weak ? `W/${tag}` : tag;
+};
+
+/**
+ * Entity tags listed in a conditional header, or `*`
+ * @internal
+ */
+const parseETags = (header: string): string[] =>
+  header.match(/\*|(?:W\/)?"[^"]*"/g) ?? [];
+
+/**
+ * Strips the weak prefix, for weak comparison
+ * @internal
+ */
+const opaque = (etag: string): string =>
+  etag.startsWith("W/") ? etag.slice(2) : etag;
+
+/**
+ * Parses an HTTP date or a Last-Modified value to seconds, the
+ * precision of HTTP dates
+ * @internal
+ */
+const toSeconds = (
+  value: Date | string | number | null | undefined,
+): number | undefined => {
+  if (value === null || value === undefined) return undefined;
+  const time =
+    value instanceof Date ? value.getTime() : new Date(value).getTime();
+  return Number.isNaN(time) ? undefined : Math.floor(time / 1000);
+};
+
+// ============================================================================
+// Preconditions
+// ============================================================================
+
+/**
+ * Evaluates the conditional headers of a request against the current
+ * validators, in the order of RFC 9110 section 13.2.2
+ * @internal
+ */
+const evaluate = (
+  req: Request,
+  { etag, lastModified }: Validators,
+): 304 | 412 | undefined => {
+  const safe = req.method === "GET" || req.method === "HEAD";
+
+  const ifMatch = req.headers.get("If-Match");
+  if (ifMatch !== null) {
+    // Strong comparison, weak tags never match
+    const matches = parseETags(ifMatch).some((tag) =>
+      tag === "*"
+        ? Boolean(etag)
+        : Boolean(etag) && !etag?.startsWith("W/") && tag === etag,
+    );
+    if (!matches) return 412;
+  }
+
+  const ifNoneMatch = req.headers.get("If-None-Match");
+  if (ifNoneMatch !== null) {
+    const matches = parseETags(ifNoneMatch).some((tag) =>
+      tag === "*"
+        ? Boolean(etag)
+        : Boolean(etag) && opaque(tag) === opaque(etag as string),
+    );
+    if (matches) return safe ? 304 : 412;
+    return undefined;
+  }
+
+  const ifModifiedSince = toSeconds(req.headers.get("If-Modified-Since"));
+  const modified = toSeconds(lastModified);
+  if (
+    safe &&
+    ifModifiedSince !== undefined &&
+    modified !== undefined &&
+    modified <= ifModifiedSince
+  ) {
+    return 304;
+  }
+  return undefined;
+};
+
+/**
+ * Checks `If-Match` and `If-None-Match` before changing a resource, e.g.
+ * in a PUT handler, throwing a 412 `HttpError` when they fail. The etag
+ * middleware only sees the response, after the change was made.
+ *
+ * @example
+ * ```ts
+ * const updatePost = async (req) => {
+ *   const post = await db.posts.get(req.params.id);
+ *   checkPreconditions(req, { etag: createETag(JSON.stringify(post)) });
+ *   return Response.json(await db.posts.update(req.params.id, await req.json()));
+ * };
+ * ```
+ */
+export const checkPreconditions = (
+  req: Request,
+  validators: Validators,
+): void => {
+  if (evaluate(req, validators) === 412) throw new HttpError(412);
+};
+
+// ============================================================================
+// Middleware
+// ============================================================================
+
+/**
+ * Headers kept on 304 responses, as the full response would have them
+ * @internal
+ */
+const NOT_MODIFIED_HEADERS = [
+  "Cache-Control",
+  "Content-Location",
+  "Date",
+  "ETag",
+  "Expires",
+  "Last-Modified",
+  "Vary",
+];
+
+/**
+ * Reads a body to hash: `html()` markup once rendered, and buffered bodies
+ * (strings, JSON, blobs, files) of at most `maxSize` bytes. Streams still
+ * producing data, like server-sent events, are passed on unread.
+ * @internal
+ */
+const readBody = async (
+  res: Response,
+  maxSize: number,
+): Promise<{ bytes?: Uint8Array<ArrayBuffer>; body: BodyInit | null }> => {
+  const type = res.headers.get("Content-Type") ?? "";
+  if (!res.body || /^text\/event-stream\b/i.test(type)) {
+    return { body: res.body };
+  }
+
+  if (res instanceof HTMLResponse) {
+    const markup = res.rendered();
+    if (markup) {
+      try {
+        const bytes = new TextEncoder().encode(await markup);
+        return { bytes, body: bytes };
+      } catch {
+        // The body stream reports the render failure
+        return { body: res.body };
+      }
+    }
+  }
+
+  const length = res.headers.get("Content-Length");
+  if (length !== null && Number(length) > maxSize) return { body: res.body };
+
+  const start = await readAvailable(res.body, maxSize + 1);
+  if (start.bytes && start.bytes.byteLength <= maxSize) {
+    return { bytes: start.bytes, body: start.bytes };
+  }
+  return { body: start.stream };
+};
+
+/**
+ * Middleware adding ETags to successful GET and HEAD responses and
+ * answering their conditional requests: `304 Not Modified` when
+ * `If-None-Match` or `If-Modified-Since` show the client's copy is current,
+ * `412 Precondition Failed` when `If-Match` doesn't match. Handlers of
+ * unsafe methods check `If-Match` with checkPreconditions.
+ *
+ * Bodies are hashed with `Bun.hash`: `html()` responses once rendered,
+ * and buffered bodies (strings, JSON, blobs, files) up to `maxSize`.
+ * Streams still producing data, like server-sent events, are passed
+ * through untouched and get no ETag. Bodies are hashed before compress
+ * encodes them, wherever it is in the chain.
+ * Responses that already have an `ETag` or `Last-Modified` are checked
+ * against it.
+ * Attach it to a route group to scope it.
+ *
+ * @example
+ * ```ts
+ * const api = createRouteGroup("/api", [etag()]);
+ *
+ * const routes = mergeRoutes(
+ *   api("/posts/:id", (req) => Response.json(getPost(req.params.id))),
+ * );
+ * ```
+ */
+export const etag = (options: ETagOptions = {}) => {
+  const { weak = false, maxSize = 1024 * 1024 } = options;
+
+  return createMiddleware(
+    async (req, _server, next) => {
+      const response = await next();
+
+      // Hashes the body as left by the hooks of the handler and inner
+      // middleware, which registered theirs first
+      onResponse(async (res) => {
+        // Unsafe methods are checked by handlers, before they change anything
+        if (req.method !== "GET" && req.method !== "HEAD") return;
+        if (res.status < 200 || res.status >= 300) return;
+        let current = res;
+
+        if (
+          res.status === 200 &&
+          !res.headers.has("ETag") &&
+          !res.headers.has("Content-Encoding")
+        ) {
+          const { bytes, body } = await readBody(res, maxSize);
+          if (bytes) res.headers.set("ETag", createETag(bytes, { weak }));
+          if (body !== res.body) {
+            current = new Response(body, {
+              status: res.status,
+              statusText: res.statusText,
+              headers: res.headers,
+            });
+          }
+        }
+
+        const result = evaluate(req, {
+          etag: current.headers.get("ETag"),
+          lastModified: current.headers.get("Last-Modified"),
+        });
+        if (result === undefined) return current;
+
+        await current.body?.cancel();
+        if (result === 412) return new HttpError(412).toResponse();
+
+        const headers = new Headers();
+        for (const name of NOT_MODIFIED_HEADERS) {
+          const value = current.headers.get(name);
+          if (value !== null) headers.set(name, value);
+        }
+        for (const cookie of current.headers.getSetCookie()) {
+          headers.append("Set-Cookie", cookie);
+        }
+        return new Response(null, { status: 304, headers });
+      });
+
+      return response;
+    },
+    { name: "etag" },
+  );
+};
@@ -0,0 +1,367 @@
+// abret/middleware/logger - Request IDs and structured logging
+// JSON lines stamped with the request's ID, method, path and timing
+
+import { closeSync, openSync, writeSync } from "node:fs";
+import { createMiddleware, type Middleware, onResponse } from "../..";
+import { createContext, setContext, useContext } from "../../store";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Log levels, from least to most severe
+ */
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+/**
+ * Additional fields of a log line
+ */
+export type LogFields = Record<string, unknown>;
+
+/**
+ * A single log line
+ */
+export interface LogRecord extends LogFields {
+  /** ISO 8601 timestamp */
+  time: string;
+  level: LogLevel;
+  msg: string;
+}
+
+/**
+ * Receives every log line at or above the logger's level
+ */
+export type LogSink = (record: LogRecord) => void;
+
+/**
+ * Structured logger
+ */
+export interface Logger {
+  debug(msg: string, fields?: LogFields): void;
+  info(msg: string, fields?: LogFields): void;
+  warn(msg: string, fields?: LogFields): void;
+  error(msg: string, fields?: LogFields): void;
+  /**
+   * Creates a logger adding `fields` to every line
+   */
+  child(fields: LogFields): Logger;
+}
+
+/**
+ * Options for createLogger
+ */
+export interface LoggerOptions {
+  /**
+   * Minimum level written to the sinks
+   * @default "info"
+   */
+  level?: LogLevel;
+  /**
+   * Where lines are written
+   * @default [stdoutSink()]
+   */
+  sinks?: LogSink[];
+  /**
+   * Fields added to every line
+   */
+  fields?: LogFields;
+}
+
+// ============================================================================
+// Sinks
+// ============================================================================
+
+/**
+ * Serializes errors, which JSON.stringify turns into `{}`
+ * @internal
+ */
+const serializeValue = (_key: string, value: unknown): unknown => {
+  if (value instanceof Error) {
+    return { name: value.name, message: value.message, stack: value.stack };
+  }
+  if (typeof value === "bigint") return value.toString();
+  return value;
+};
+
+/**
+ * Formats a record as a JSON line, including the trailing newline
+ */
+export const formatLogRecord = (record: LogRecord): string =>
+  `${JSON.stringify(record, serializeValue)}\n`;
+
+/**
+ * Creates a sink writing records as JSON lines with `write`
+ *
+ * @example
+ * ```ts
+ * const lines: string[] = [];
+ * const memory = jsonLinesSink((line) => lines.push(line));
+ * ```
+ */
+export const jsonLinesSink =
+  (write: (line: string) => void): LogSink =>
+  (record) =>
+    write(formatLogRecord(record));
+
+/**
+ * Creates a sink writing JSON lines to stdout
+ */
+export const stdoutSink = (): LogSink =>
+  jsonLinesSink((line) => {
+    process.stdout.write(line);
+  });
+
+/**
+ * File sink returned by fileSink
+ */
+export type FileSink = LogSink & {
+  /** Closes the file */
+  close(): void;
+};
+
+/**
+ * Creates a sink appending JSON lines to a file.
+ * Lines are written synchronously, so they are never lost or interleaved.
+ *
+ * @example
+ * ```ts
+ * const sink = fileSink("./logs/app.log");
+ * const app = createApp({ middleware: [requestId(), logger({ sinks: [sink] })] });
+ * ```
+ */
+export const fileSink = (path: string): FileSink => {
+  const fd = openSync(path, "a");
+  return Object.assign(
+    jsonLinesSink((line) => {
+      writeSync(fd, line);
+    }),
+    { close: () => closeSync(fd) },
+  );
+};
+
+// ============================================================================
+// Logger
+// ============================================================================
+
+/**
+ * Severity of each level
+ * @internal
+ */
+const LEVELS: Record<LogLevel, number> = {
+  debug: 0,
+  info: 1,
+  warn: 2,
+  error: 3,
+};
+
+/**
+ * Builds a logger whose bound fields are resolved for every line
+ * @internal
+ */
+const buildLogger = (
+  level: LogLevel,
+  sinks: LogSink[],
+  bound: () => LogFields,
+): Logger => {
+  const log = (lineLevel: LogLevel, msg: string, fields?: LogFields) => {
+    if (LEVELS[lineLevel] < LEVELS[level]) return;
+    const record: LogRecord = {
+      time: new Date().toISOString(),
+      level: lineLevel,
+      msg,
+      ...bound(),
+      ...fields,
+    };
+    for (const sink of sinks) {
+      // A failing sink must not break the request
+      try {
+        sink(record);
+      } catch (e) {
+        console.error("Error in log sink", e);
+      }
+    }
+  };
+
+  return {
+    debug: (msg, fields) => log("debug", msg, fields),
+    info: (msg, fields) => log("info", msg, fields),
+    warn: (msg, fields) => log("warn", msg, fields),
+    error: (msg, fields) => log("error", msg, fields),
+    child: (fields) =>
+      buildLogger(level, sinks, () => ({ ...bound(), ...fields })),
+  };
+};
+
+/**
+ * Creates a structured logger writing JSON lines
+ *
+ * @example
+ * ```ts
+ * const log = createLogger({ level: "debug", fields: { service: "api" } });
+ * log.info("server started", { port: 3000 });
+ * // {"time":"...","level":"info","msg":"server started","service":"api","port":3000}
+ * ```
+ */
+export const createLogger = (options: LoggerOptions = {}): Logger => {
+  const { level = "info", sinks = [stdoutSink()], fields = {} } = options;
+  return buildLogger(level, sinks, () => fields);
+};
+
+// ============================================================================
+// Contexts
+// ============================================================================
+
+/**
+ * ID of the current request, set by the requestId middleware
+ */
+export const RequestIdContext = createContext<string, "abret-request-id">(
+  "abret-request-id",
+);
+
+/**
+ * Logger of the current request, set by the logger middleware.
+ * Outside of it, a logger writing to stdout.
+ *
+ * @example
+ * ```ts
+ * const Checkout = () => {
+ *   const log = useContext(LoggerContext);
+ *   log.info("checkout rendered", { items: cart.length });
+ *   return <form>...</form>;
+ * };
+ * ```
+ */
+export const LoggerContext = createContext<Logger, "abret-logger">(
+  "abret-logger",
+  createLogger(),
+);
+
+// ============================================================================
+// Middleware
+// ============================================================================
+
+/**
+ * Incoming request IDs are reused only if they match, others are replaced
+ * @internal
+ */
+const VALID_REQUEST_ID = /^[\w\-.:]{1,200}$/;
+
+/**
+ * Options for requestId
+ */
+export interface RequestIdOptions {
+  /**
+   * Header read from the request and echoed on the response
+   * @default "X-Request-Id"
+   */
+  header?: string;
+  /**
+   * Generates IDs for requests without a valid one
+   * @default crypto.randomUUID
+   */
+  generate?: () => string;
+  /**
+   * Whether to reuse the ID sent by the client or a proxy
+   * @default true
+   */
+  trustIncoming?: boolean;
+}
+
+/**
+ * Middleware that reads the request ID from `X-Request-Id` (or generates one),
+ * stores it in RequestIdContext and echoes it on the response, including
+ * error responses.
+ *
+ * @example
+ * ```ts
+ * const app = createApp({ middleware: [requestId(), logger()] });
+ *
+ * const handler = () => Response.json({ id: useContext(RequestIdContext) });
+ * ```
+ */
+export const requestId = (options: RequestIdOptions = {}) => {
+  const {
+    header = "X-Request-Id",
+    generate = () => crypto.randomUUID(),
+    trustIncoming = true,
+  } = options;
+
+  return createMiddleware(
+    (req, _server, next) => {
+      const incoming = trustIncoming ? req.headers.get(header) : null;
+      const id =
+        incoming && VALID_REQUEST_ID.test(incoming) ? incoming : generate();
+
+      setContext(RequestIdContext, id);
+      onResponse((res) => {
+        res.headers.set(header, id);
+      });
+      return next();
+    },
+    { name: "requestId", provides: [RequestIdContext] },
+  );
+};
+
+/**
+ * Options for the logger middleware
+ */
+export interface RequestLoggerOptions extends LoggerOptions {
+  /**
+   * Logs a "request completed" line with the status and duration
+   * @default true
+   */
+  logRequests?: boolean;
+}
+
+/**
+ * Middleware that provides a request logger through LoggerContext.
+ * Every line is stamped with the request ID (from requestId, which must run
+ * first), method, path and the milliseconds elapsed since the request started.
+ *
+ * @example
+ * ```ts
+ * const app = createApp({
+ *   middleware: [requestId(), logger({ sinks: [stdoutSink(), fileSink("app.log")] })],
+ * });
+ *
+ * const handler = () => {
+ *   useContext(LoggerContext).info("listing users");
+ *   return Response.json(users);
+ * };
+ * // {"time":"...","level":"info","msg":"listing users","requestId":"...","method":"GET","path":"/users","elapsed":0.42}
+ * ```
+ */
+export const logger = (options: RequestLoggerOptions = {}): Middleware => {
+  const {
+    logRequests = true,
+    level = "info",
+    sinks = [stdoutSink()],
+    fields = {},
+  } = options;
+
+  return createMiddleware(
+    (req, _server, next) => {
+      const start = performance.now();
+      const stamp = {
+        requestId: useContext(RequestIdContext),
+        method: req.method,
+        path: new URL(req.url).pathname,
+      };
+      const log = buildLogger(level, sinks, () => ({
+        ...fields,
+        ...stamp,
+        elapsed: Math.round((performance.now() - start) * 100) / 100,
+      }));
+
+      setContext(LoggerContext, log);
+      if (logRequests) {
+        onResponse((res) => {
+          log.info("request completed", { status: res.status });
+        });
+      }
+      return next();
+    },
+    { name: "logger" },
+  );
+};
@@ -0,0 +1,479 @@
+// abret/middleware/rate-limit - Request rate limiting
+// Fixed-window, sliding-window and token-bucket limits with pluggable keys and stores
+
+import { Database } from "bun:sqlite";
+import { createMiddleware, HttpError, onResponse } from "../..";
+import { createContext, setContext } from "../../store";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Rate limiting algorithms:
+ * - `fixed-window`: `limit` requests per window, counters reset at window boundaries
+ * - `sliding-window`: like fixed-window, weighting the previous window to smooth bursts at boundaries
+ * - `token-bucket`: bursts of up to `limit` requests, refilled evenly over the window
+ */
+export type RateLimitAlgorithm =
+  | "fixed-window"
+  | "sliding-window"
+  | "token-bucket";
+
+/**
+ * Outcome of a rate-limited request
+ */
+export interface RateLimitInfo {
+  /** Requests allowed per window */
+  limit: number;
+  /** Requests left in the current window */
+  remaining: number;
+  /** Seconds until the limit is fully restored */
+  reset: number;
+  /** Seconds until the next request is allowed, 0 when allowed */
+  retryAfter: number;
+  /** Whether the request was allowed */
+  allowed: boolean;
+}
+
+/**
+ * Keeps the state of each key. State is JSON-serializable and owned by the
+ * algorithm, so every store works with every algorithm.
+ */
+export interface RateLimitStore {
+  /**
+   * Replaces the state of `key` with `update(current)`, atomically for the key.
+   * `current` is undefined when missing or older than `ttl` milliseconds.
+   */
+  update<T>(
+    key: string,
+    ttl: number,
+    update: (current: T | undefined) => T,
+  ): T | Promise<T>;
+  /** Forgets a key */
+  reset(key: string): void | Promise<void>;
+}
+
+/**
+ * Options for rateLimit
+ */
+export interface RateLimitOptions {
+  /**
+   * Requests allowed per window (the bucket size for `token-bucket`)
+   */
+  limit: number;
+  /**
+   * Window length in seconds
+   * @default 60
+   */
+  window?: number;
+  /**
+   * @default "sliding-window"
+   */
+  algorithm?: RateLimitAlgorithm;
+  /**
+   * Identifies the client. Return undefined to not limit the request.
+   * @default the client's IP address
+   */
+  key?: (
+    req: Request,
+    server: Bun.Server<any>,
+  ) => string | undefined | Promise<string | undefined>;
+  /**
+   * Where counters are kept
+   * @default memoryStore()
+   */
+  store?: RateLimitStore;
+  /**
+   * Prefix of the keys, to share a store between limiters
+   * @default ""
+   */
+  prefix?: string;
+  /**
+   * Sends `RateLimit-Limit`, `RateLimit-Remaining`, `RateLimit-Reset`
+   * and `RateLimit-Policy` headers
+   * @default true
+   */
+  headers?: boolean;
+  /**
+   * Creates the response of limited requests.
+   * Defaults to a 429 `HttpError`, so error hooks can render it.
+   */
+  onLimit?: (info: RateLimitInfo, req: Request) => Response | Promise<Response>;
+}
+
+// ============================================================================
+// Context
+// ============================================================================
+
+/**
+ * Rate limit of the current request, set by the rateLimit middleware
+ */
+export const RateLimitContext = createContext<
+  RateLimitInfo,
+  "abret-rate-limit"
+>("abret-rate-limit");
+
+// ============================================================================
+// Algorithms
+// ============================================================================
+
+/**
+ * Applies a request to the state of a key
+ * @internal
+ */
+interface Algorithm<T> {
+  /** How long an untouched state stays relevant */
+  ttl: (windowMs: number) => number;
+  hit: (
+    state: T | undefined,
+    now: number,
+    limit: number,
+    windowMs: number,
+  ) => { state: T; info: RateLimitInfo };
+}
+
+/**
+ * Builds the info of a request, rounding durations up to seconds
+ * @internal
+ */
+const toInfo = (
+  limit: number,
+  remaining: number,
+  resetMs: number,
+  retryAfterMs: number,
+): RateLimitInfo => ({
+  limit,
+  remaining: Math.max(0, Math.floor(remaining)),
+  reset: Math.max(0, Math.ceil(resetMs / 1000)),
+  retryAfter: Math.max(0, Math.ceil(retryAfterMs / 1000)),
+  allowed: retryAfterMs <= 0,
+});
+
+/**
+ * Counts requests per window, denied requests included
+ * @internal
+ */
+const fixedWindow: Algorithm<{ start: number; count: number }> = {
+  ttl: (windowMs) => windowMs,
+  hit: (state, now, limit, windowMs) => {
+    const start = now - (now % windowMs);
+    const count = (state?.start === start ? state.count : 0) + 1;
+    const reset = start + windowMs - now;
+    return {
+      state: { start, count },
+      info: toInfo(limit, limit - count, reset, count > limit ? reset : 0),
+    };
+  },
+};
+
+/**
+ * Counts allowed requests per window, adding the previous window's count
+ * weighted by how much of it still overlaps the sliding window
+ * @internal
+ */
+const slidingWindow: Algorithm<{
+  start: number;
+  count: number;
+  previous: number;
+}> = {
+  ttl: (windowMs) => windowMs * 2,
+  hit: (state, now, limit, windowMs) => {
+    const start = now - (now % windowMs);
+    let count = 0;
+    let previous = 0;
+    if (state?.start === start) {
+      count = state.count;
+      previous = state.previous;
+    } else if (state?.start === start - windowMs) {
+      previous = state.count;
+    }
+
+    const elapsed = now - start;
+    const weight = (windowMs - elapsed) / windowMs;
+    const estimated = previous * weight + count;
+    const allowed = estimated + 1 <= limit;
+    if (allowed) count += 1;
+
+    let retryAfter = 0;
+    if (!allowed) {
+      // Time until the weighted count leaves room for one request: within this
+      // window if the previous one is what fills it, else into the next one
+      const room = limit - 1 - count;
+      retryAfter =
+        room >= 0
+          ? windowMs * (1 - room / previous) - elapsed
+          : windowMs - elapsed + windowMs * (1 - (limit - 1) / count);
+    }
+    // Requests of this window weigh until the end of the next one
+    let reset = 0;
+    if (count > 0) reset = 2 * windowMs - elapsed;
+    else if (previous > 0) reset = windowMs - elapsed;
+
+    return {
+      state: { start, count, previous },
+      info: toInfo(limit, limit - previous * weight - count, reset, retryAfter),
+    };
+  },
+};
+
+/**
+ * Takes a token per request from a bucket of `limit` tokens,
+ * refilled at `limit` tokens per window
+ * @internal
+ */
+const tokenBucket: Algorithm<{ tokens: number; updated: number }> = {
+  ttl: (windowMs) => windowMs,
+  hit: (state, now, limit, windowMs) => {
+    const rate = limit / windowMs;
+    let tokens = state
+      ? Math.min(limit, state.tokens + (now - state.updated) * rate)
+      : limit;
+    const allowed = tokens >= 1;
+    if (allowed) tokens -= 1;
+    return {
+      state: { tokens, updated: now },
+      info: toInfo(
+        limit,
+        tokens,
+        (limit - tokens) / rate,
+        allowed ? 0 : (1 - tokens) / rate,
+      ),
+    };
+  },
+};
+
+/**
+ * Algorithms by name
+ * @internal
+ */
+const ALGORITHMS: Record<RateLimitAlgorithm, Algorithm<any>> = {
+  "fixed-window": fixedWindow,
+  "sliding-window": slidingWindow,
+  "token-bucket": tokenBucket,
+};
+
+// ============================================================================
+// Stores
+// ============================================================================
+
+/**
+ * Expired keys are pruned at most this often
+ * @internal
+ */
+const PRUNE_INTERVAL = 60_000;
+
+/**
+ * Creates a store keeping counters in memory, per process
+ */
+export const memoryStore = (): RateLimitStore => {
+  const entries = new Map<string, { state: unknown; expiresAt: number }>();
+  let lastPrune = 0;
+
+  return {
+    update: <T>(
+      key: string,
+      ttl: number,
+      update: (current: T | undefined) => T,
+    ): T => {
+      const now = Date.now();
+      if (now - lastPrune >= PRUNE_INTERVAL) {
+        lastPrune = now;
+        for (const [entryKey, entry] of entries) {
+          if (entry.expiresAt <= now) entries.delete(entryKey);
+        }
+      }
+      const entry = entries.get(key);
+      const current =
+        entry && entry.expiresAt > now ? (entry.state as T) : undefined;
+      const state = update(current);
+      entries.set(key, { state, expiresAt: now + ttl });
+      return state;
+    },
+    reset: (key) => {
+      entries.delete(key);
+    },
+  };
+};
+
+/**
+ * Options for sqliteStore
+ */
+export interface SqliteStoreOptions {
+  /**
+   * Database file, or an open database. Use a file to share limits
+   * between processes.
+   * @default ":memory:"
+   */
+  database?: string | Database;
+  /**
+   * Table holding the counters, created if missing
+   * @default "rate_limits"
+   */
+  table?: string;
+}
+
+/**
+ * Creates a store keeping counters in a `bun:sqlite` database.
+ * Updates run in immediate transactions, so processes sharing the file
+ * don't lose increments.
+ *
+ * @example
+ * ```ts
+ * rateLimit({ limit: 5, window: 60, store: sqliteStore({ database: "./data/limits.db" }) });
+ * ```
+ */
+export const sqliteStore = (
+  options: SqliteStoreOptions = {},
+): RateLimitStore => {
+  const { database = ":memory:", table = "rate_limits" } = options;
+  if (!/^\w+$/.test(table)) {
+    throw new Error(`Invalid rate limit table name "${table}"`);
+  }
+  const db = typeof database === "string" ? new Database(database) : database;
+  let lastPrune = 0;
+
+  db.run(
+    `CREATE TABLE IF NOT EXISTS ${table} (key TEXT PRIMARY KEY, state TEXT NOT NULL, expires_at INTEGER NOT NULL)`,
+  );
+
+  const select = db.query<{ state: string }, [string, number]>(
+    `SELECT state FROM ${table} WHERE key = ? AND expires_at > ?`,
+  );
+  const upsert = db.query(
+    `INSERT INTO ${table} (key, state, expires_at) VALUES (?, ?, ?)
+     ON CONFLICT (key) DO UPDATE SET state = excluded.state, expires_at = excluded.expires_at`,
+  );
+  const remove = db.query(`DELETE FROM ${table} WHERE key = ?`);
+  const removeExpired = db.query(`DELETE FROM ${table} WHERE expires_at <= ?`);
+
+  return {
+    update: <T>(
+      key: string,
+      ttl: number,
+      update: (current: T | undefined) => T,
+    ): T =>
+      db
+        .transaction(() => {
+          const now = Date.now();
+          if (now - lastPrune >= PRUNE_INTERVAL) {
+            lastPrune = now;
+            removeExpired.run(now);
+          }
+          const row = select.get(key, now);
+          const state = update(row ? (JSON.parse(row.state) as T) : undefined);
+          upsert.run(key, JSON.stringify(state), now + ttl);
+          return state;
+        })
+        .immediate(),
+    reset: (key) => {
+      remove.run(key);
+    },
+  };
+};
+
+// ============================================================================
+// Middleware
+// ============================================================================
+
+/**
+ * Default key: the client's IP address
+ * @internal
+ */
+const clientIP = (req: Request, server: Bun.Server<any>): string =>
+  server.requestIP(req)?.address ?? "unknown";
+
+/**
+ * Middleware limiting how often each client can reach the routes after it.
+ * Limited requests get a 429 with `Retry-After`; every response gets the
+ * `RateLimit-*` headers. The outcome is readable through RateLimitContext.
+ *
+ * @example
+ * ```ts
+ * // 5 login attempts per minute and IP
+ * const login = createRoute(
+ *   "/login",
+ *   { POST: handleLogin },
+ *   rateLimit({ limit: 5, window: 60 }),
+ * );
+ *
+ * // 1000 requests per hour and API key, shared between processes
+ * const api = createRouteGroup("/api", [
+ *   auth,
+ *   rateLimit({
+ *     limit: 1000,
+ *     window: 3600,
+ *     algorithm: "token-bucket",
+ *     key: () => useContext(ApiKeyContext)?.id,
+ *     store: sqliteStore({ database: "./data/limits.db" }),
+ *     onLimit: (info) =>
+ *       Response.json({ error: "quota_exceeded", retryAfter: info.retryAfter }, { status: 429 }),
+ *   }),
+ * ]);
+ * ```
+ */
+export const rateLimit = (options: RateLimitOptions) => {
+  const {
+    limit,
+    window = 60,
+    algorithm = "sliding-window",
+    key = clientIP,
+    store = memoryStore(),
+    prefix = "",
+    headers = true,
+    onLimit,
+  } = options;
+  if (!Number.isInteger(limit) || limit < 1) {
+    throw new Error("rateLimit limit must be a positive integer");
+  }
+  if (!(window > 0)) {
+    throw new Error("rateLimit window must be positive");
+  }
+  const windowMs = window * 1000;
+  const implementation = ALGORITHMS[algorithm];
+  const policy = `${limit};w=${window}`;
+
+  return createMiddleware(
+    async (req, server, next) => {
+      const id = await key(req, server);
+      if (id === undefined) return next();
+
+      let info: RateLimitInfo | undefined;
+      await store.update<unknown>(
+        `${prefix}${algorithm}:${id}`,
+        implementation.ttl(windowMs),
+        (current) => {
+          const result = implementation.hit(
+            current,
+            Date.now(),
+            limit,
+            windowMs,
+          );
+          info = result.info;
+          return result.state;
+        },
+      );
+      const outcome = info as RateLimitInfo;
+
+      setContext(RateLimitContext, outcome);
+      onResponse((res) => {
+        if (headers) {
+          res.headers.set("RateLimit-Limit", String(outcome.limit));
+          res.headers.set("RateLimit-Remaining", String(outcome.remaining));
+          res.headers.set("RateLimit-Reset", String(outcome.reset));
+          res.headers.set("RateLimit-Policy", policy);
+        }
+        if (!outcome.allowed) {
+          res.headers.set("Retry-After", String(outcome.retryAfter));
+        }
+      });
+
+      if (!outcome.allowed) {
+        if (onLimit) return onLimit(outcome, req);
+        throw new HttpError(429);
+      }
+      return next();
+    },
+    { name: "rateLimit", provides: [RateLimitContext] },
+  );
+};
@@ -0,0 +1,482 @@
+// abret/middleware/session - Server-side sessions
+// Lazily loaded session data behind a cookie, saved only when it changed
+
+import { Database } from "bun:sqlite";
+import { randomBytes } from "node:crypto";
+import { mkdirSync } from "node:fs";
+import { readdir, rm } from "node:fs/promises";
+import path from "node:path";
+import {
+  type CookieOptions,
+  createMiddleware,
+  deleteCookie,
+  getCookie,
+  onResponse,
+  setCookie,
+} from "../..";
+import { type Session, SessionContext, type SessionData } from "../../session";
+import { setContext, useContext } from "../../store";
+
+export {
+  type Session,
+  SessionContext,
+  type SessionData,
+} from "../../session";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * A stored session
+ */
+export interface SessionRecord {
+  data: SessionData;
+  /** Expiry, in milliseconds since the epoch */
+  expiresAt: number;
+}
+
+/**
+ * Persists sessions. Methods may be sync or async.
+ * `get` must not return expired sessions.
+ */
+export interface SessionStore {
+  get(
+    id: string,
+  ): SessionRecord | undefined | Promise<SessionRecord | undefined>;
+  set(id: string, record: SessionRecord): void | Promise<void>;
+  /** Extends the expiry of an unchanged session */
+  touch(id: string, expiresAt: number): void | Promise<void>;
+  delete(id: string): void | Promise<void>;
+}
+
+/**
+ * Options for session
+ */
+export interface SessionOptions {
+  /**
+   * Where sessions are kept
+   * @default memoryStore()
+   */
+  store?: SessionStore;
+  /**
+   * Name of the session cookie
+   * @default "sid"
+   */
+  cookieName?: string;
+  /**
+   * Attributes of the session cookie. `httpOnly` defaults to true.
+   */
+  cookie?: Omit<CookieOptions, "expires" | "maxAge">;
+  /**
+   * Session lifetime in seconds
+   * @default 86400 (1 day)
+   */
+  maxAge?: number;
+  /**
+   * Extends the expiry on every request using the session,
+   * instead of counting from its creation
+   * @default true
+   */
+  rolling?: boolean;
+}
+
+// ============================================================================
+// Context
+// ============================================================================
+
+/**
+ * Gets the session of the current request, typed with `Data`.
+ * Throws when the session middleware didn't run.
+ *
+ * @example
+ * ```ts
+ * type AppSession = { userId: string; cart: string[] };
+ *
+ * const Cart = async () => {
+ *   const cart = (await useSession<AppSession>().get("cart")) ?? [];
+ *   return <span>{cart.length} items</span>;
+ * };
+ * ```
+ */
+export const useSession = <
+  Data extends SessionData = SessionData,
+>(): Session<Data> =>
+  useContext(SessionContext, { required: true }) as unknown as Session<Data>;
+
+// ============================================================================
+// Stores
+// ============================================================================
+
+/**
+ * Expired sessions are pruned at most this often when saving
+ * @internal
+ */
+const PRUNE_INTERVAL = 60_000;
+
+/**
+ * Creates a function telling whether it's time to prune expired sessions
+ * @internal
+ */
+const createPruneSchedule = () => {
+  let last = 0;
+  return (): boolean => {
+    const now = Date.now();
+    if (now - last < PRUNE_INTERVAL) return false;
+    last = now;
+    return true;
+  };
+};
+
+/**
+ * Creates a store keeping sessions in memory. Sessions are lost on restart
+ * and not shared between processes, use it for development and tests.
+ */
+export const memoryStore = (): SessionStore => {
+  const sessions = new Map<string, { json: string; expiresAt: number }>();
+  const shouldPrune = createPruneSchedule();
+
+  return {
+    get: (id) => {
+      const entry = sessions.get(id);
+      if (!entry) return undefined;
+      if (entry.expiresAt <= Date.now()) {
+        sessions.delete(id);
+        return undefined;
+      }
+      // Copies, so changes are only kept when the session is saved
+      return { data: JSON.parse(entry.json), expiresAt: entry.expiresAt };
+    },
+    set: (id, record) => {
+      if (shouldPrune()) {
+        const now = Date.now();
+        for (const [key, entry] of sessions) {
+          if (entry.expiresAt <= now) sessions.delete(key);
+        }
+      }
+      sessions.set(id, {
+        json: JSON.stringify(record.data),
+        expiresAt: record.expiresAt,
+      });
+    },
+    touch: (id, expiresAt) => {
+      const entry = sessions.get(id);
+      if (entry) entry.expiresAt = expiresAt;
+    },
+    delete: (id) => {
+      sessions.delete(id);
+    },
+  };
+};
+
+/**
+ * Creates a store writing each session to a JSON file in `dir`,
+ * created if missing.
+ *
+ * @example
+ * ```ts
+ * session({ store: fileStore("./data/sessions") });
+ * ```
+ */
+export const fileStore = (dir: string): SessionStore => {
+  mkdirSync(dir, { recursive: true });
+  const shouldPrune = createPruneSchedule();
+  const fileOf = (id: string) => path.join(dir, `${id}.json`);
+
+  const read = async (id: string): Promise<SessionRecord | undefined> => {
+    const file = Bun.file(fileOf(id));
+    if (!(await file.exists())) return undefined;
+    try {
+      return await file.json();
+    } catch {
+      // Partially written or corrupted, treated as missing
+      return undefined;
+    }
+  };
+
+  const prune = async () => {
+    const now = Date.now();
+    for (const name of await readdir(dir)) {
+      if (!name.endsWith(".json")) continue;
+      const record = await read(name.slice(0, -5));
+      if (record && record.expiresAt <= now) {
+        await rm(path.join(dir, name), { force: true });
+      }
+    }
+  };
+
+  return {
+    get: async (id) => {
+      const record = await read(id);
+      if (!record) return undefined;
+      if (record.expiresAt <= Date.now()) {
+        await rm(fileOf(id), { force: true });
+        return undefined;
+      }
+      return record;
+    },
+    set: async (id, record) => {
+      if (shouldPrune()) await prune();
+      await Bun.write(fileOf(id), JSON.stringify(record));
+    },
+    touch: async (id, expiresAt) => {
+      const record = await read(id);
+      if (record)
+        await Bun.write(fileOf(id), JSON.stringify({ ...record, expiresAt }));
+    },
+    delete: async (id) => {
+      await rm(fileOf(id), { force: true });
+    },
+  };
+};
+
+/**
+ * Options for sqliteStore
+ */
+export interface SqliteStoreOptions {
+  /**
+   * Database file, or an open database
+   * @default ":memory:"
+   */
+  database?: string | Database;
+  /**
+   * Table holding the sessions, created if missing
+   * @default "sessions"
+   */
+  table?: string;
+}
+
+/**
+ * Creates a store keeping sessions in a `bun:sqlite` database
+ *
+ * @example
+ * ```ts
+ * session({ store: sqliteStore({ database: "./data/app.db" }) });
+ * ```
+ */
+export const sqliteStore = (options: SqliteStoreOptions = {}): SessionStore => {
+  const { database = ":memory:", table = "sessions" } = options;
+  if (!/^\w+$/.test(table)) {
+    throw new Error(`Invalid session table name "${table}"`);
+  }
+  const db = typeof database === "string" ? new Database(database) : database;
+  const shouldPrune = createPruneSchedule();
+
+  db.run(
+    `CREATE TABLE IF NOT EXISTS ${table} (id TEXT PRIMARY KEY, data TEXT NOT NULL, expires_at INTEGER NOT NULL)`,
+  );
+  db.run(
+    `CREATE INDEX IF NOT EXISTS ${table}_expires_at ON ${table} (expires_at)`,
+  );
+
+  const select = db.query<
+    { data: string; expires_at: number },
+    [string, number]
+  >(`SELECT data, expires_at FROM ${table} WHERE id = ? AND expires_at > ?`);
+  const upsert = db.query(
+    `INSERT INTO ${table} (id, data, expires_at) VALUES (?, ?, ?)
+     ON CONFLICT (id) DO UPDATE SET data = excluded.data, expires_at = excluded.expires_at`,
+  );
+  const update = db.query(`UPDATE ${table} SET expires_at = ? WHERE id = ?`);
+  const remove = db.query(`DELETE FROM ${table} WHERE id = ?`);
+  const removeExpired = db.query(`DELETE FROM ${table} WHERE expires_at <= ?`);
+
+  return {
+    get: (id) => {
+      const row = select.get(id, Date.now());
+      return row
+        ? { data: JSON.parse(row.data), expiresAt: row.expires_at }
+        : undefined;
+    },
+    set: (id, record) => {
+      if (shouldPrune()) removeExpired.run(Date.now());
+      upsert.run(id, JSON.stringify(record.data), record.expiresAt);
+    },
+    touch: (id, expiresAt) => {
+      update.run(expiresAt, id);
+    },
+    delete: (id) => {
+      remove.run(id);
+    },
+  };
+};
+
+// ============================================================================
+// Middleware
+// ============================================================================
+
+/**
+ * Session IDs are 32 random bytes, base64url encoded. Cookies not matching
+ * are ignored, which also keeps them safe to use as file names.
+ * @internal
+ */
+const VALID_SESSION_ID = /^[\w-]{43}$/;
+
+/**
+ * Generates a session ID
+ * @internal
+ */
+const generateSessionId = (): string => randomBytes(32).toString("base64url");
+
+/**
+ * Creates the session of a request, and the function saving it
+ * @internal
+ */
+const createSession = (
+  store: SessionStore,
+  cookieId: string | undefined,
+  persist: (id: string | undefined, expiresAt: number | undefined) => void,
+  maxAge: number,
+  rolling: boolean,
+): { session: Session; commit: () => Promise<void> } => {
+  let id: string | undefined;
+  let loadedId: string | undefined;
+  let data: SessionData = {};
+  let expiresAt: number | undefined;
+  let loading: Promise<void> | undefined;
+  let dirty = false;
+  let destroyed = false;
+  const obsolete: string[] = [];
+
+  const load = () => {
+    loading ??= (async () => {
+      if (!cookieId) return;
+      const record = await store.get(cookieId);
+      if (!record) return;
+      id = loadedId = cookieId;
+      data = record.data;
+      expiresAt = record.expiresAt;
+    })();
+    return loading;
+  };
+
+  const session: Session = {
+    get id() {
+      return id;
+    },
+    get: async (key) => {
+      await load();
+      return data[key];
+    },
+    set: async (key, value) => {
+      await load();
+      data[key] = value;
+      id ??= generateSessionId();
+      dirty = true;
+      destroyed = false;
+    },
+    unset: async (key) => {
+      await load();
+      if (!(key in data)) return;
+      delete data[key];
+      dirty = true;
+    },
+    all: async () => {
+      await load();
+      return structuredClone(data);
+    },
+    regenerate: async () => {
+      await load();
+      if (loadedId) obsolete.push(loadedId);
+      loadedId = undefined;
+      id = generateSessionId();
+      expiresAt = undefined;
+      dirty = true;
+      destroyed = false;
+    },
+    destroy: async () => {
+      await load();
+      if (loadedId) obsolete.push(loadedId);
+      loadedId = undefined;
+      id = undefined;
+      data = {};
+      expiresAt = undefined;
+      dirty = false;
+      destroyed = true;
+    },
+  };
+
+  const commit = async () => {
+    for (const old of obsolete) await store.delete(old);
+
+    if (dirty && id) {
+      if (rolling || !expiresAt) expiresAt = Date.now() + maxAge * 1000;
+      await store.set(id, { data, expiresAt });
+      if (id !== loadedId || rolling) persist(id, expiresAt);
+    } else if (destroyed) {
+      if (cookieId) persist(undefined, undefined);
+    } else if (id && rolling) {
+      expiresAt = Date.now() + maxAge * 1000;
+      await store.touch(id, expiresAt);
+      persist(id, expiresAt);
+    }
+  };
+
+  return { session, commit };
+};
+
+/**
+ * Middleware providing the request's session through SessionContext (read it
+ * with useSession). The session is loaded from the store on first access and
+ * saved with the final response, only when it changed. With `rolling`, using
+ * the session extends its expiry.
+ *
+ * @example
+ * ```ts
+ * const app = createApp({
+ *   middleware: [session({ store: sqliteStore({ database: "app.db" }), cookie: { secure: true } })],
+ * });
+ *
+ * const login = async (req) => {
+ *   const user = await authenticate(await req.formData());
+ *   const session = useSession<{ userId: string }>();
+ *   await session.regenerate();
+ *   await session.set("userId", user.id);
+ *   return Response.redirect("/", 303);
+ * };
+ * ```
+ */
+export const session = (options: SessionOptions = {}) => {
+  const {
+    store = memoryStore(),
+    cookieName = "sid",
+    cookie = {},
+    maxAge = 60 * 60 * 24,
+    rolling = true,
+  } = options;
+  const cookieOptions = { httpOnly: true, ...cookie };
+
+  // Sets the cookie of a saved session, or deletes it
+  const persist = (id: string | undefined, expiresAt: number | undefined) => {
+    if (id && expiresAt) {
+      setCookie(cookieName, id, {
+        ...cookieOptions,
+        expires: new Date(expiresAt),
+      });
+    } else {
+      deleteCookie(cookieName, {
+        path: cookieOptions.path,
+        domain: cookieOptions.domain,
+      });
+    }
+  };
+
+  return createMiddleware(
+    (_req, _server, next) => {
+      const cookieId = getCookie(cookieName);
+      const { session, commit } = createSession(
+        store,
+        cookieId && VALID_SESSION_ID.test(cookieId) ? cookieId : undefined,
+        persist,
+        maxAge,
+        rolling,
+      );
+
+      setContext(SessionContext, session);
+      // Saved with the final response, after async components rendered
+      onResponse(commit);
+      return next();
+    },
+    { name: "session", provides: [SessionContext] },
+  );
+};
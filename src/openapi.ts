@@ -0,0 +1,543 @@
+// abret/openapi - OpenAPI 3.1 document generation from routes
+
+import { createRoute, mergeRoutes, type RouteObject } from ".";
+import { type BodyType, getAcceptedBodyTypes } from "./body";
+import { listRoutes, type RouteInfo } from "./manifest";
+import { getRouteMeta, type RouteOperation } from "./meta";
+import {
+  getAttachedSchemas,
+  type StandardSchemaV1,
+  type ValidationSchemas,
+} from "./validation";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * A JSON Schema object
+ */
+export type JSONSchema = Record<string, unknown>;
+
+/**
+ * OpenAPI parameter object
+ */
+export interface OpenAPIParameter {
+  name: string;
+  in: "path" | "query";
+  required: boolean;
+  schema: JSONSchema;
+  description?: string;
+}
+
+/**
+ * OpenAPI operation object
+ */
+export interface OpenAPIOperation {
+  operationId: string;
+  summary?: string;
+  tags?: string[];
+  parameters?: OpenAPIParameter[];
+  requestBody?: {
+    required: boolean;
+    content: Record<string, { schema: JSONSchema }>;
+  };
+  responses: Record<
+    string,
+    {
+      description: string;
+      content?: Record<string, { schema: JSONSchema }>;
+    }
+  >;
+}
+
+/**
+ * OpenAPI 3.1 document
+ */
+export interface OpenAPIDocument {
+  openapi: "3.1.0";
+  info: { title: string; version: string; description?: string };
+  servers?: { url: string; description?: string }[];
+  tags?: { name: string }[];
+  paths: Record<string, Partial<Record<string, OpenAPIOperation>>>;
+}
+
+/**
+ * Options for generateOpenAPI
+ */
+export interface OpenAPIOptions {
+  /**
+   * Document info
+   * @default { title: "API", version: "1.0.0" }
+   */
+  info?: OpenAPIDocument["info"];
+  /**
+   * Server URLs
+   */
+  servers?: OpenAPIDocument["servers"];
+  /**
+   * Filters the routes included in the document
+   * @default all routes
+   */
+  include?: (route: RouteInfo) => boolean;
+  /**
+   * Converts a Standard Schema into JSON Schema.
+   * Defaults to the schema's Standard JSON Schema support
+   * (`~standard.jsonSchema`) or its `toJSONSchema()` method, else `{}`.
+   */
+  toJSONSchema?: (schema: StandardSchemaV1) => JSONSchema | undefined;
+}
+
+// ============================================================================
+// Generation
+// ============================================================================
+
+/**
+ * Converts a Standard Schema into JSON Schema using what the library exposes
+ * @internal
+ */
+const defaultToJSONSchema = (schema: StandardSchemaV1): JSONSchema => {
+  const standard = schema["~standard"] as {
+    jsonSchema?: { input?: (options: { target: string }) => JSONSchema };
+  };
+  if (typeof standard.jsonSchema?.input === "function") {
+    return standard.jsonSchema.input({ target: "draft-2020-12" });
+  }
+
+  const withMethod = schema as {
+    toJSONSchema?: () => JSONSchema;
+    toJsonSchema?: () => JSONSchema;
+  };
+  if (typeof withMethod.toJSONSchema === "function") {
+    return withMethod.toJSONSchema();
+  }
+  if (typeof withMethod.toJsonSchema === "function") {
+    return withMethod.toJsonSchema();
+  }
+
+  return {};
+};
+
+/**
+ * Converts an abret path into an OpenAPI path template.
+ * `/users/:id` becomes `/users/{id}`, a trailing `*` becomes `{wildcard}`.
+ */
+export const toOpenAPIPath = (path: string): string =>
+  path
+    .split("/")
+    .map((segment) => {
+      if (segment.startsWith(":")) return `{${segment.slice(1)}}`;
+      if (segment === "*") return "{wildcard}";
+      return segment;
+    })
+    .join("/");
+
+/**
+ * Names of the path parameters of an abret path
+ * @internal
+ */
+const pathParamNames = (path: string): string[] =>
+  path.split("/").flatMap((segment) => {
+    if (segment.startsWith(":")) return [segment.slice(1)];
+    if (segment === "*") return ["wildcard"];
+    return [];
+  });
+
+/**
+ * Methods a single-handler route answers
+ * @internal
+ */
+const ANY_METHODS: Bun.Serve.HTTPMethod[] = [
+  "GET",
+  "POST",
+  "PUT",
+  "PATCH",
+  "DELETE",
+  "HEAD",
+  "OPTIONS",
+];
+
+/**
+ * Methods whose requests have no body
+ * @internal
+ */
+const BODILESS_METHODS = new Set(["GET", "HEAD"]);
+
+/**
+ * Media type of each body format
+ * @internal
+ */
+const BODY_MEDIA_TYPES: Record<BodyType, string> = {
+  json: "application/json",
+  urlencoded: "application/x-www-form-urlencoded",
+  multipart: "multipart/form-data",
+  text: "text/plain",
+};
+
+/**
+ * Merges the schemas attached to the middlewares and handler of an operation.
+ * Later (inner) schemas win over earlier ones. Body formats not set on a
+ * validator come from the bodyParser of the operation.
+ * @internal
+ */
+const collectSchemas = (
+  routeMiddlewares: unknown[],
+  operation: RouteOperation | undefined,
+): ValidationSchemas => {
+  const schemas: ValidationSchemas = {};
+  let parserTypes: BodyType[] | undefined;
+  for (const fn of [
+    ...routeMiddlewares,
+    ...(operation?.middlewares ?? []),
+    operation?.handler,
+  ]) {
+    Object.assign(schemas, getAttachedSchemas(fn));
+    parserTypes = getAcceptedBodyTypes(fn) ?? parserTypes;
+  }
+  schemas.bodyTypes ??= parserTypes;
+  return schemas;
+};
+
+/**
+ * Builds an operation id like `getApiUsersById`
+ * @internal
+ */
+const toOperationId = (method: string, path: string): string => {
+  const words = path
+    .split("/")
+    .filter(Boolean)
+    .map((segment) => {
+      if (segment === "*") return "Wildcard";
+      const name = segment.startsWith(":") ? `By-${segment.slice(1)}` : segment;
+      return name
+        .split(/[^a-zA-Z0-9]+/)
+        .filter(Boolean)
+        .map((word) => word[0]?.toUpperCase() + word.slice(1))
+        .join("");
+    });
+  return `${method.toLowerCase()}${words.join("") || "Root"}`;
+};
+
+/**
+ * Creates the operation object of a single method
+ * @internal
+ */
+const buildOperation = (
+  method: string,
+  route: RouteInfo,
+  schemas: ValidationSchemas,
+  toJSONSchema: (schema: StandardSchemaV1) => JSONSchema,
+): OpenAPIOperation => {
+  const operation: OpenAPIOperation = {
+    operationId: toOperationId(method, route.path),
+    responses: {},
+  };
+
+  if (route.description) operation.summary = route.description;
+  if (route.group && route.group !== "/") {
+    operation.tags = [route.group.replace(/^\//, "")];
+  }
+
+  const parameters: OpenAPIParameter[] = [];
+
+  // Path parameters, typed from the params schema when there is one
+  const paramsSchema = schemas.params ? toJSONSchema(schemas.params) : {};
+  const paramProperties = (paramsSchema.properties ?? {}) as Record<
+    string,
+    JSONSchema
+  >;
+  for (const name of pathParamNames(route.path)) {
+    parameters.push({
+      name,
+      in: "path",
+      required: true,
+      schema: paramProperties[name] ?? { type: "string" },
+    });
+  }
+
+  // Query parameters come from the properties of the query schema
+  if (schemas.query) {
+    const querySchema = toJSONSchema(schemas.query);
+    const required = new Set((querySchema.required ?? []) as string[]);
+    const properties = (querySchema.properties ?? {}) as Record<
+      string,
+      JSONSchema
+    >;
+    for (const [name, schema] of Object.entries(properties)) {
+      parameters.push({
+        name,
+        in: "query",
+        required: required.has(name),
+        schema,
+      });
+    }
+  }
+
+  if (parameters.length > 0) operation.parameters = parameters;
+
+  if (schemas.body && !BODILESS_METHODS.has(method)) {
+    const schema = toJSONSchema(schemas.body);
+    const content: Record<string, { schema: JSONSchema }> = {};
+    for (const type of schemas.bodyTypes ?? ["json"]) {
+      content[BODY_MEDIA_TYPES[type]] = { schema };
+    }
+    operation.requestBody = { required: true, content };
+  }
+
+  operation.responses["200"] = schemas.response
+    ? {
+        description: "Successful response",
+        content: {
+          "application/json": { schema: toJSONSchema(schemas.response) },
+        },
+      }
+    : { description: "Successful response" };
+  if (schemas.params || schemas.query || schemas.body) {
+    operation.responses["400"] = { description: "Validation failed" };
+  }
+
+  return operation;
+};
+
+/**
+ * Generates an OpenAPI 3.1 document from a routes object.
+ * Schemas attached with `validate` or `withValidation` describe parameters
+ * and request bodies, `describeRoute` descriptions become summaries and
+ * group prefixes become tags. Request bodies are documented with the
+ * validator's `bodyTypes`, else the formats of the route's bodyParser, else
+ * as JSON. Single-handler routes are documented for every method.
+ *
+ * @example
+ * ```ts
+ * import { generateOpenAPI } from "abret/openapi";
+ *
+ * const doc = generateOpenAPI(routes, {
+ *   info: { title: "Users API", version: "2.0.0" },
+ *   include: (route) => route.path.startsWith("/api"),
+ * });
+ * ```
+ */
+export const generateOpenAPI = (
+  routes: RouteObject,
+  options: OpenAPIOptions = {},
+): OpenAPIDocument => {
+  const toJSONSchema = (schema: StandardSchemaV1) =>
+    options.toJSONSchema?.(schema) ?? defaultToJSONSchema(schema);
+
+  const doc: OpenAPIDocument = {
+    openapi: "3.1.0",
+    info: options.info ?? { title: "API", version: "1.0.0" },
+    paths: {},
+  };
+  if (options.servers) doc.servers = options.servers;
+
+  const tags = new Set<string>();
+
+  for (const route of listRoutes(routes)) {
+    if (options.include && !options.include(route)) continue;
+
+    const meta = getRouteMeta(routes[route.path]);
+    const methods = route.methods.includes("ALL") ? ANY_METHODS : route.methods;
+    const pathItem: Partial<Record<string, OpenAPIOperation>> = {};
+
+    for (const method of methods) {
+      const operation =
+        meta?.operations[method as Bun.Serve.HTTPMethod] ??
+        meta?.operations.ALL;
+      const schemas = collectSchemas(meta?.middlewares ?? [], operation);
+      const built = buildOperation(method, route, schemas, toJSONSchema);
+      for (const tag of built.tags ?? []) tags.add(tag);
+      pathItem[method.toLowerCase()] = built;
+    }
+
+    doc.paths[toOpenAPIPath(route.path)] = pathItem;
+  }
+
+  if (tags.size > 0) {
+    doc.tags = [...tags].map((name) => ({ name }));
+  }
+
+  return doc;
+};
+
+/**
+ * Serializes an OpenAPI document as YAML
+ */
+export const toYAML = (doc: OpenAPIDocument): string =>
+  // Round-trip through JSON so shared schema objects don't become YAML anchors
+  Bun.YAML.stringify(JSON.parse(JSON.stringify(doc)), null, 2);
+
+// ============================================================================
+// Routes
+// ============================================================================
+
+/**
+ * Options for createOpenAPIRoutes
+ */
+export interface OpenAPIRoutesOptions extends OpenAPIOptions {
+  /**
+   * Path of the JSON document
+   * @default "/openapi.json"
+   */
+  jsonPath?: `/${string}`;
+  /**
+   * Path of the YAML document, `false` to disable
+   * @default "/openapi.yaml"
+   */
+  yamlPath?: `/${string}` | false;
+  /**
+   * Path of the viewer page, `false` to disable
+   * @default "/docs"
+   */
+  docsPath?: `/${string}` | false;
+  /**
+   * URLs of the Swagger UI files loaded by the viewer page. They default to
+   * swagger-ui-dist on unpkg, so browsers opening the page need internet
+   * access; point them at files you serve yourself to use it offline.
+   */
+  viewerAssets?: ViewerAssets;
+}
+
+/**
+ * Swagger UI files loaded by the viewer page
+ */
+export interface ViewerAssets {
+  /**
+   * Stylesheet URL
+   * @default "https://unpkg.com/swagger-ui-dist@5/swagger-ui.css"
+   */
+  stylesheet?: string;
+  /**
+   * Script URL of the Swagger UI bundle
+   * @default "https://unpkg.com/swagger-ui-dist@5/swagger-ui-bundle.js"
+   */
+  script?: string;
+}
+
+/**
+ * Swagger UI files from unpkg, used unless viewerAssets are given
+ * @internal
+ */
+const DEFAULT_VIEWER_ASSETS: Required<ViewerAssets> = {
+  stylesheet: "https://unpkg.com/swagger-ui-dist@5/swagger-ui.css",
+  script: "https://unpkg.com/swagger-ui-dist@5/swagger-ui-bundle.js",
+};
+
+/**
+ * Escapes a value for use in an HTML attribute
+ * @internal
+ */
+const escapeAttribute = (value: string): string =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/"/g, "&quot;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+
+/**
+ * Static viewer page rendering the document with Swagger UI
+ * @internal
+ */
+const viewerPage = (
+  title: string,
+  specUrl: string,
+  assets: Required<ViewerAssets>,
+): string => `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8" />
+<meta name="viewport" content="width=device-width, initial-scale=1" />
+<title>${escapeAttribute(title)}</title>
+<link rel="stylesheet" href="${escapeAttribute(assets.stylesheet)}" />
+</head>
+<body>
+<div id="swagger-ui" data-url="${escapeAttribute(specUrl)}"></div>
+<script src="${escapeAttribute(assets.script)}" crossorigin></script>
+<script>
+const root = document.getElementById("swagger-ui");
+window.ui = SwaggerUIBundle({ url: root.dataset.url, domNode: root });
+</script>
+</body>
+</html>`;
+
+/**
+ * Creates routes serving the OpenAPI document as JSON and YAML, plus a
+ * static viewer page. The document is generated on the first request,
+ * pass a function to document routes that are assembled later. The viewer
+ * loads Swagger UI from unpkg unless `viewerAssets` are given.
+ *
+ * @example
+ * ```ts
+ * const app = createApp().add(home, api("/users", listUsers));
+ *
+ * app.add(
+ *   createOpenAPIRoutes(() => app.build().routes, {
+ *     info: { title: "My API", version: "1.0.0" },
+ *   }),
+ * );
+ * // GET /openapi.json, /openapi.yaml and /docs
+ * ```
+ */
+export const createOpenAPIRoutes = (
+  routes: RouteObject | (() => RouteObject),
+  options: OpenAPIRoutesOptions = {},
+): RouteObject => {
+  const {
+    jsonPath = "/openapi.json",
+    yamlPath = "/openapi.yaml",
+    docsPath = "/docs",
+    viewerAssets,
+    ...generateOptions
+  } = options;
+
+  const ownPaths = new Set<string>([jsonPath]);
+  if (yamlPath) ownPaths.add(yamlPath);
+  if (docsPath) ownPaths.add(docsPath);
+
+  let cached: OpenAPIDocument | undefined;
+  const getDocument = () => {
+    cached ??= generateOpenAPI(
+      typeof routes === "function" ? routes() : routes,
+      {
+        ...generateOptions,
+        // The documentation routes don't document themselves
+        include: (route) =>
+          !ownPaths.has(route.path) &&
+          (generateOptions.include?.(route) ?? true),
+      },
+    );
+    return cached;
+  };
+
+  const docRoutes: RouteObject[] = [
+    createRoute(jsonPath, { GET: () => Response.json(getDocument()) }),
+  ];
+
+  if (yamlPath) {
+    docRoutes.push(
+      createRoute(yamlPath, {
+        GET: () =>
+          new Response(toYAML(getDocument()), {
+            headers: { "Content-Type": "application/yaml; charset=utf-8" },
+          }),
+      }),
+    );
+  }
+
+  if (docsPath) {
+    const page = viewerPage(generateOptions.info?.title ?? "API", jsonPath, {
+      ...DEFAULT_VIEWER_ASSETS,
+      ...viewerAssets,
+    });
+    docRoutes.push(
+      createRoute(docsPath, {
+        GET: () =>
+          new Response(page, {
+            headers: { "Content-Type": "text/html; charset=utf-8" },
+          }),
+      }),
+    );
+  }
+
+  return mergeRoutes(...docRoutes);
+};
@@ -0,0 +1,45 @@
+// Session of the current request, shared by the session middleware and those reading it
+// Kept apart from abret/middleware/session so readers don't load its stores
+
+import { createContext } from "./store";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Data of a session. Values must survive a JSON round trip.
+ */
+export type SessionData = Record<string, unknown>;
+
+/**
+ * Session of the current request. Data is loaded from the store on first
+ * access, so requests not using the session don't hit the store.
+ */
+export interface Session<Data extends SessionData = SessionData> {
+  /** Session ID, undefined for sessions without data */
+  readonly id: string | undefined;
+  get<K extends keyof Data & string>(key: K): Promise<Data[K] | undefined>;
+  set<K extends keyof Data & string>(key: K, value: Data[K]): Promise<void>;
+  unset(key: keyof Data & string): Promise<void>;
+  /** Copy of the whole session data */
+  all(): Promise<Partial<Data>>;
+  /**
+   * Moves the data to a new session ID and deletes the old one.
+   * Call it on login and privilege changes to prevent session fixation.
+   */
+  regenerate(): Promise<void>;
+  /** Deletes the session and its cookie */
+  destroy(): Promise<void>;
+}
+
+// ============================================================================
+// Context
+// ============================================================================
+
+/**
+ * Session of the current request, set by the session middleware
+ */
+export const SessionContext = createContext<Session, "abret-session">(
+  "abret-session",
+);
@@ -0,0 +1,202 @@
+// Server-Sent Events
+// Streams events while keeping the request's context scope alive
+
+import { getContextStore } from "./store";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * An open event stream
+ */
+export interface SSEStream<
+  Events extends Record<string, unknown> = Record<string, unknown>,
+> {
+  /**
+   * Sends an event. Strings are sent as is, other data as JSON.
+   */
+  send<E extends keyof Events & string>(
+    event: E,
+    data: Events[E],
+    id?: string | number,
+  ): void;
+  /**
+   * Sends a comment line, ignored by EventSource
+   */
+  comment(text: string): void;
+  /**
+   * Ends the stream
+   */
+  close(): void;
+  /**
+   * Registers a cleanup function, run once when the stream ends
+   * or the client disconnects
+   */
+  onClose(fn: () => void): void;
+  /**
+   * `Last-Event-ID` sent by a reconnecting client, to resume from
+   */
+  readonly lastEventId: string | undefined;
+  /**
+   * Aborted when the stream ends or the client disconnects
+   */
+  readonly signal: AbortSignal;
+}
+
+/**
+ * Options for sse
+ */
+export interface SSEOptions {
+  /**
+   * Interval of heartbeat comments in milliseconds, `false` to disable.
+   * Keeps proxies and Bun's idle timeout (10 seconds by default) from
+   * closing quiet streams.
+   * @default 8000
+   */
+  heartbeat?: number | false;
+  /**
+   * Reconnection delay sent to the client, in milliseconds
+   */
+  retry?: number;
+  /**
+   * Additional response headers
+   */
+  headers?: HeadersInit;
+}
+
+// ============================================================================
+// Encoding
+// ============================================================================
+
+/**
+ * Formats a single event, splitting multi-line data into several `data:` lines
+ * @internal
+ */
+const formatEvent = (
+  event: string,
+  data: unknown,
+  id: string | number | undefined,
+): string => {
+  const text = typeof data === "string" ? data : JSON.stringify(data);
+  let message = "";
+  if (id !== undefined) message += `id: ${String(id).replace(/[\r\n]/g, "")}\n`;
+  if (event !== "message")
+    message += `event: ${event.replace(/[\r\n]/g, "")}\n`;
+  for (const line of (text ?? "").split(/\r\n|\r|\n/)) {
+    message += `data: ${line}\n`;
+  }
+  return `${message}\n`;
+};
+
+// ============================================================================
+// Response
+// ============================================================================
+
+/**
+ * Creates a Server-Sent Events response. The handler and everything it
+ * schedules (timers, subscriptions, onClose callbacks) run in the context
+ * scope of the request, so `useContext` keeps working after the route
+ * handler returned. The stream stays open until `close()` is called or
+ * the client disconnects (`req.signal`), which runs the cleanup functions.
+ *
+ * @example
+ * ```ts
+ * type Events = { price: { symbol: string; value: number } };
+ *
+ * const prices = createRoute("/prices", (req) =>
+ *   sse<Events>(req, (stream) => {
+ *     const user = useContext(UserContext);
+ *     const unsubscribe = feed.subscribe(user.watchlist, (quote) => {
+ *       stream.send("price", quote, quote.sequence);
+ *     }, { after: stream.lastEventId });
+ *     stream.onClose(unsubscribe);
+ *   }),
+ * );
+ * ```
+ */
+export const sse = <
+  Events extends Record<string, unknown> = Record<string, unknown>,
+>(
+  req: Request,
+  handler: (stream: SSEStream<Events>) => void | Promise<void>,
+  options: SSEOptions = {},
+): Response => {
+  const { heartbeat = 8000, retry } = options;
+  const contextStore = getContextStore();
+  const scope = contextStore.getStore() ?? new Map();
+  const encoder = new TextEncoder();
+  const abort = new AbortController();
+  const cleanups: (() => void)[] = [];
+
+  let controller: ReadableStreamDefaultController<Uint8Array> | undefined;
+  let timer: ReturnType<typeof setInterval> | undefined;
+
+  const write = (text: string) => {
+    if (abort.signal.aborted || !controller) return;
+    controller.enqueue(encoder.encode(text));
+  };
+
+  const close = () => {
+    if (abort.signal.aborted) return;
+    abort.abort();
+    clearInterval(timer);
+    req.signal.removeEventListener("abort", close);
+    contextStore.run(scope, () => {
+      for (const cleanup of cleanups.splice(0)) {
+        try {
+          cleanup();
+        } catch (e) {
+          console.error("Error in SSE cleanup", e);
+        }
+      }
+    });
+    try {
+      controller?.close();
+    } catch {
+      // Already closed by a cancelled stream
+    }
+  };
+
+  const stream: SSEStream<Events> = {
+    send: (event, data, id) => write(formatEvent(event, data, id)),
+    comment: (text) => write(`: ${text.replace(/[\r\n]/g, " ")}\n\n`),
+    close,
+    onClose: (fn) => {
+      if (abort.signal.aborted) fn();
+      else cleanups.push(fn);
+    },
+    lastEventId: req.headers.get("Last-Event-ID") ?? undefined,
+    signal: abort.signal,
+  };
+
+  const body = new ReadableStream<Uint8Array>({
+    start: (streamController) => {
+      controller = streamController;
+      if (retry !== undefined) write(`retry: ${retry}\n\n`);
+      if (heartbeat) {
+        timer = setInterval(() => stream.comment("heartbeat"), heartbeat);
+      }
+
+      if (req.signal.aborted) return close();
+      req.signal.addEventListener("abort", close, { once: true });
+
+      contextStore.run(scope, async () => {
+        try {
+          await handler(stream);
+        } catch (e) {
+          console.error("Unhandled error in SSE stream", e);
+          close();
+        }
+      });
+    },
+    cancel: close,
+  });
+
+  const headers = new Headers(options.headers);
+  headers.set("Content-Type", "text/event-stream; charset=utf-8");
+  if (!headers.has("Cache-Control")) headers.set("Cache-Control", "no-cache");
+  headers.set("Connection", "keep-alive");
+
+  return new Response(body, { headers });
+};
@@ -14,18 +14,29 @@ import { AsyncLocalStorage } from "node:async_hooks";
 const contextStore = new AsyncLocalStorage<Map<symbol, unknown>>();
 
 /**
- * Context type for type-safe context access
+ * Context type for type-safe context access, branded with its name so
+ * contexts holding the same value type stay distinct
  */
-export type Context<T> = symbol & { __type: T };
+export type Context<T, N extends string = string> = symbol & {
+  __type: T;
+  __name: N;
+};
+
+/**
+ * Accepts literal context names only, so a context's name can't be widened
+ * to `string` and lose its brand
+ * @internal
+ */
+type LiteralName<N extends string> = string extends N ? never : N;
 
 /**
  * JSX Context interface with Provider component and default value
  */
-export interface ContextWithProvider<T> {
+export interface ContextWithProvider<T, N extends string = string> {
   /**
    * Unique ID for this context
    */
-  id: Context<T>;
+  id: Context<T, N>;
   /**
    * Default value when context is not set
    */
@@ -40,12 +51,16 @@ export interface ContextWithProvider<T> {
  * Creates a typed context for storing/retrieving values.
  * Works with both request handlers and JSX components.
  *
+ * The name is kept in the context's type, so context requirements tell
+ * apart contexts of the same value type. It must be a literal: when the
+ * value type is given explicitly, pass the name as second type argument.
+ *
  * @example
  * ```ts
  * import { createContext, useContext, setContext } from "abret/store";
  *
  * // Define context (without default - returns undefined if not set)
- * const UserContext = createContext<{ id: string; name: string }>("user");
+ * const UserContext = createContext<{ id: string; name: string }, "user">("user");
  *
  * // Define context (with default value)
  * const ThemeContext = createContext("theme", "light");
@@ -70,17 +85,19 @@ export interface ContextWithProvider<T> {
  * }
  * ```
  */
-export function createContext<T>(name: string): Context<T>;
-export function createContext<T>(
-  name: string,
+export function createContext<T, const N extends string>(
+  name: LiteralName<N>,
+): Context<T, N>;
+export function createContext<T, const N extends string>(
+  name: LiteralName<N>,
   defaultValue: T,
-): ContextWithProvider<T>;
-export function createContext<T>(
-  name: string,
+): ContextWithProvider<T, N>;
+export function createContext<T, const N extends string>(
+  name: LiteralName<N>,
   ...args: [defaultValue: T] | []
-): Context<T> | ContextWithProvider<T> {
+): Context<T, N> | ContextWithProvider<T, N> {
   const [defaultValue] = args;
-  const id = Symbol(name) as Context<T>;
+  const id = Symbol(name) as Context<T, N>;
 
   // If default value provided, return context with Provider
   if (args.length > 0) {
@@ -281,3 +298,100 @@ export function runWithContextValue<T, R>(
  * @internal
  */
 export const getContextStore = () => contextStore;
+
+// ============================================================================
+// Context Requirements (type-level)
+// ============================================================================
+
+/**
+ * Type-only key carrying the contexts a middleware provides.
+ * Contexts are wrapped in a tuple so an empty (`never`) list survives inference.
+ * @internal
+ */
+declare const providedContexts: unique symbol;
+
+/**
+ * Type-only key carrying the contexts a handler or component requires
+ * @internal
+ */
+declare const requiredContexts: unique symbol;
+
+/**
+ * A middleware that declares the contexts it sets, see createMiddleware
+ */
+export interface ProvidesContexts<C extends Context<unknown>> {
+  readonly [providedContexts]?: [C];
+}
+
+/**
+ * A handler or component that declares the contexts it reads, see requireContext
+ */
+export interface RequiresContexts<C extends Context<unknown>> {
+  readonly [requiredContexts]?: [C];
+}
+
+/**
+ * Contexts whose name is a literal. A context typed with a plain `string`
+ * name could stand for any context of its value type, so it provides none.
+ * @internal
+ */
+type NamedContexts<C> =
+  C extends Context<unknown, infer N> ? (string extends N ? never : C) : never;
+
+/**
+ * Union of the named contexts provided by a middleware type
+ */
+export type ProvidedContexts<T> =
+  T extends ProvidesContexts<infer C> ? NamedContexts<C> : never;
+
+/**
+ * Union of the contexts required by a handler or component type
+ */
+export type RequiredContexts<T> =
+  T extends RequiresContexts<infer C> ? C : never;
+
+/**
+ * A context, or a handler or component whose requirements are inherited
+ */
+export type ContextRequirement =
+  | Context<unknown>
+  | RequiresContexts<Context<unknown>>;
+
+/**
+ * Contexts of a single requirement
+ * @internal
+ */
+type RequirementContexts<R> = R extends symbol ? R : RequiredContexts<R>;
+
+/**
+ * Declares the contexts a handler or component reads. Routes then fail to
+ * type-check unless a middleware of the route or its groups provides them
+ * (see the `provides` option of createMiddleware). Passing a component
+ * instead of a context inherits that component's requirements.
+ *
+ * Contexts are matched by their name and value type, providers typed
+ * without a literal name don't count. This is a type-level check only,
+ * the function is returned as is.
+ *
+ * @example
+ * ```ts
+ * const Profile = requireContext([UserContext], () => {
+ *   const user = useContext(UserContext, { required: true });
+ *   return <p>{user.name}</p>;
+ * });
+ *
+ * // Requires UserContext through Profile
+ * const handler = requireContext([Profile], () => html(<Profile />));
+ *
+ * createRoute("/me", handler, auth); // ok, auth provides UserContext
+ * createRoute("/me", handler); // type error
+ * ```
+ */
+export const requireContext = <
+  const R extends readonly ContextRequirement[],
+  F extends (...args: any[]) => unknown,
+>(
+  _requirements: R,
+  fn: F,
+): F & RequiresContexts<RequirementContexts<R[number]>> =>
+  fn as F & RequiresContexts<RequirementContexts<R[number]>>;
@@ -0,0 +1,109 @@
+// Body stream helpers shared by the built-in middleware
+
+/**
+ * Start of a body, read by readAvailable
+ * @internal
+ */
+export interface AvailableBody {
+  /** The whole body, when it ended within the limit */
+  bytes: Uint8Array<ArrayBuffer> | undefined;
+  /** The body from its start, replaying what was read */
+  stream: ReadableStream<Uint8Array>;
+}
+
+/**
+ * Result of reading a body chunk
+ * @internal
+ */
+type ReadResult = Awaited<
+  ReturnType<ReadableStreamDefaultReader<Uint8Array>["read"]>
+>;
+
+/**
+ * Marks a read that didn't settle within a macrotask
+ * @internal
+ */
+const WAITING = Symbol("waiting");
+
+/**
+ * Resolves after pending I/O callbacks, by which buffered bodies have
+ * delivered their next chunk
+ * @internal
+ */
+const nextMacrotask = (): Promise<typeof WAITING> =>
+  new Promise((resolve) => setImmediate(() => resolve(WAITING)));
+
+/**
+ * Concatenates chunks into a single buffer
+ * @internal
+ */
+const concat = (
+  chunks: Uint8Array[],
+  size: number,
+): Uint8Array<ArrayBuffer> => {
+  const bytes = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return bytes;
+};
+
+/**
+ * Reads the start of a body, up to `limit` bytes, without waiting on a
+ * stream. The first chunk is awaited, later ones only when they are
+ * already there: buffered bodies (strings, JSON, blobs, files) end right
+ * away and are returned whole, while a stream still producing data is
+ * left to flow through `stream`, so its chunks aren't held back.
+ * @internal
+ */
+export const readAvailable = async (
+  body: ReadableStream<Uint8Array>,
+  limit: number,
+): Promise<AvailableBody> => {
+  const reader = body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  let next = reader.read();
+  let ended = false;
+
+  while (size < limit) {
+    const result: ReadResult | typeof WAITING =
+      chunks.length === 0
+        ? await next
+        : await Promise.race([next, nextMacrotask()]);
+    if (result === WAITING) break;
+    if (result.done) {
+      ended = true;
+      break;
+    }
+    chunks.push(result.value);
+    size += result.value.byteLength;
+    next = reader.read();
+  }
+
+  // A read still in flight delivers the next chunk of the replay
+  let pending: Promise<ReadResult> | undefined = ended ? undefined : next;
+
+  const queue = [...chunks];
+  const stream = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const chunk = queue.shift();
+      if (chunk) {
+        controller.enqueue(chunk);
+        return;
+      }
+      const next = pending ?? reader.read();
+      pending = undefined;
+      const { done, value } = await next;
+      if (done) controller.close();
+      else controller.enqueue(value);
+    },
+    cancel(reason) {
+      return reader.cancel(reason);
+    },
+  });
+
+  return { bytes: ended ? concat(chunks, size) : undefined, stream };
+};
@@ -0,0 +1,458 @@
+// abret/testing - In-process test client
+// Dispatches requests to routes with Bun's matching rules, without starting a server
+
+import type { AppConfig, Middleware, NextFunction, RouteObject } from ".";
+import { drainResponseHooks, runInRequestScope } from "./lifecycle";
+import { runWithContext } from "./store";
+
+// ============================================================================
+// Fake Server
+// ============================================================================
+
+/**
+ * A WebSocket upgrade requested through the fake server
+ */
+export interface TestUpgrade<S = undefined> {
+  request: Request;
+  data: S | undefined;
+  headers?: HeadersInit;
+}
+
+/**
+ * Fake `Bun.Server` used by the test client
+ */
+export type TestServer<S = undefined> = Bun.Server<S> & {
+  /** Upgrades requested by handlers, in order */
+  readonly upgrades: TestUpgrade<S>[];
+  /** Messages published with `server.publish`, in order */
+  readonly published: { topic: string; data: string | BufferSource }[];
+};
+
+/**
+ * Options for createTestServer
+ */
+export interface TestServerOptions {
+  /**
+   * Address returned by `server.requestIP`, `null` for none
+   * @default "127.0.0.1"
+   */
+  ip?: string | null;
+  /**
+   * Result of `server.upgrade`
+   * @default true
+   */
+  upgrade?: boolean;
+  /**
+   * URL of the fake server
+   * @default "http://localhost/"
+   */
+  url?: string;
+}
+
+/**
+ * Creates a fake `Bun.Server` for calling handlers and middleware directly.
+ * `requestIP`, `upgrade`, `publish` and `timeout` are stubbed, upgrades and
+ * published messages are recorded for assertions.
+ *
+ * @example
+ * ```ts
+ * const server = createTestServer({ ip: "10.0.0.1" });
+ * const res = await handler(new Request("http://localhost/"), server);
+ * ```
+ */
+export const createTestServer = <S = undefined>(
+  options: TestServerOptions = {},
+): TestServer<S> => {
+  const { ip = "127.0.0.1", upgrade = true } = options;
+  const url = new URL(options.url ?? "http://localhost/");
+  const upgrades: TestUpgrade<S>[] = [];
+  const published: { topic: string; data: string | BufferSource }[] = [];
+
+  const server = {
+    upgrades,
+    published,
+    url,
+    hostname: url.hostname,
+    port: Number(url.port) || (url.protocol === "https:" ? 443 : 80),
+    protocol: url.protocol === "https:" ? "https" : "http",
+    development: true,
+    id: "abret-test",
+    pendingRequests: 0,
+    pendingWebSockets: 0,
+    requestIP: () =>
+      ip === null
+        ? null
+        : { address: ip, family: ip.includes(":") ? "IPv6" : "IPv4", port: 0 },
+    upgrade: (
+      request: Request,
+      upgradeOptions: { data?: S; headers?: HeadersInit } = {},
+    ) => {
+      if (upgrade) {
+        upgrades.push({
+          request,
+          data: upgradeOptions.data,
+          headers: upgradeOptions.headers,
+        });
+      }
+      return upgrade;
+    },
+    publish: (topic: string, data: string | BufferSource) => {
+      published.push({ topic, data });
+      return 0;
+    },
+    subscriberCount: () => 0,
+    timeout: () => {},
+    fetch: () => {
+      throw new Error("server.fetch is not available in tests");
+    },
+    reload: () => server,
+    stop: async () => {},
+    ref: () => {},
+    unref: () => {},
+    [Symbol.dispose]: () => {},
+  };
+
+  return server as unknown as TestServer<S>;
+};
+
+// ============================================================================
+// Route Matching
+// ============================================================================
+
+/**
+ * A matched route
+ */
+export interface RouteMatch {
+  /** The route path that matched */
+  path: string;
+  /** Decoded values of the `:param` segments */
+  params: Record<string, string>;
+}
+
+/**
+ * Precedence of a route segment, lower wins
+ * @internal
+ */
+const segmentRank = (segment: string): number => {
+  if (segment === "*") return 2;
+  if (segment.startsWith(":")) return 1;
+  return 0;
+};
+
+/**
+ * Decodes a path segment, keeping malformed escapes as they are
+ * @internal
+ */
+const decodeSegment = (segment: string): string => {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return segment;
+  }
+};
+
+/**
+ * Matches a single route path against a pathname
+ * @internal
+ */
+const matchPath = (
+  path: string,
+  pathname: string,
+): Record<string, string> | undefined => {
+  const routeSegments = path.split("/");
+  const segments = pathname.split("/");
+  const params: Record<string, string> = {};
+
+  for (let i = 0; i < routeSegments.length; i++) {
+    const routeSegment = routeSegments[i] as string;
+    const segment = segments[i];
+
+    // A trailing wildcard matches the rest, but at least one segment
+    if (routeSegment === "*" && i === routeSegments.length - 1) {
+      return segments.length > i ? params : undefined;
+    }
+    if (segment === undefined) return undefined;
+
+    if (routeSegment.startsWith(":")) {
+      if (segment === "") return undefined;
+      params[routeSegment.slice(1)] = decodeSegment(segment);
+    } else if (routeSegment !== segment) {
+      return undefined;
+    }
+  }
+
+  return segments.length === routeSegments.length ? params : undefined;
+};
+
+/**
+ * Compares segment ranks from left to right
+ * @internal
+ */
+const isHigherPrecedence = (ranks: number[], other: number[]): boolean => {
+  const length = Math.max(ranks.length, other.length);
+  for (let i = 0; i < length; i++) {
+    const rank = ranks[i] ?? -1;
+    const otherRank = other[i] ?? -1;
+    if (rank !== otherRank) return rank < otherRank;
+  }
+  return false;
+};
+
+/**
+ * Finds the route for a pathname with Bun's precedence:
+ * exact segments win over `:param` segments, which win over `*` wildcards,
+ * compared from left to right.
+ *
+ * @example
+ * ```ts
+ * matchRoute(["/users/:id", "/users/me"], "/users/me");
+ * // { path: "/users/me", params: {} }
+ * ```
+ */
+export const matchRoute = (
+  paths: Iterable<string>,
+  pathname: string,
+): RouteMatch | undefined => {
+  let best: { match: RouteMatch; ranks: number[] } | undefined;
+
+  for (const path of paths) {
+    const params = matchPath(path, pathname);
+    if (!params) continue;
+
+    const ranks = path.split("/").map(segmentRank);
+    if (best && !isHigherPrecedence(ranks, best.ranks)) continue;
+    best = { match: { path, params }, ranks };
+  }
+
+  return best?.match;
+};
+
+// ============================================================================
+// Test Client
+// ============================================================================
+
+/**
+ * Turns a request into a `BunRequest` with params and cookies
+ * @internal
+ */
+const toBunRequest = <P extends string>(
+  req: Request,
+  params: Record<string, string>,
+): Bun.BunRequest<P> =>
+  Object.defineProperties(req, {
+    params: { value: params, configurable: true },
+    cookies: {
+      value: new Bun.CookieMap(req.headers.get("Cookie") ?? ""),
+      configurable: true,
+    },
+  }) as Bun.BunRequest<P>;
+
+/**
+ * Resolves request input against the client's base URL
+ * @internal
+ */
+const toRequest = (
+  input: string | URL | Request,
+  init: RequestInit | undefined,
+  baseUrl: string,
+): Request =>
+  input instanceof Request
+    ? new Request(input, init)
+    : new Request(new URL(input, baseUrl), init);
+
+/**
+ * Options for createTestClient
+ */
+export interface TestClientOptions<S = undefined> extends TestServerOptions {
+  /**
+   * Fake server passed to handlers
+   * @default createTestServer(options)
+   */
+  server?: TestServer<S>;
+  /**
+   * Runs inside the request's context scope before dispatching,
+   * e.g. to provide contexts with `setContext`
+   */
+  setup?: (req: Request) => void;
+}
+
+/**
+ * In-process client returned by createTestClient
+ */
+export interface TestClient<S = undefined> {
+  /**
+   * Dispatches a request, relative URLs resolve against the server URL
+   */
+  request(input: string | URL | Request, init?: RequestInit): Promise<Response>;
+  /** The fake server passed to handlers */
+  readonly server: TestServer<S>;
+}
+
+/**
+ * Creates a client dispatching requests to routes in-process, without
+ * starting a server. Paths are matched like `Bun.serve` does: exact segments
+ * before `:param` before `*`. Unmatched requests go to the app's `fetch`
+ * handler when given a `createApp().build()` config, else they get a 404.
+ * HEAD responses lose their body, as Bun sends their headers only.
+ *
+ * @example
+ * ```ts
+ * const client = createTestClient(app.build());
+ *
+ * const res = await client.request("/api/users/7");
+ * expect(await res.json()).toEqual({ id: "7" });
+ *
+ * const created = await client.request("/api/users", {
+ *   method: "POST",
+ *   body: JSON.stringify({ name: "Ada" }),
+ * });
+ * ```
+ */
+export const createTestClient = <S = undefined>(
+  target:
+    | RouteObject
+    | Pick<AppConfig<RouteObject, S>, "routes" | "fetch" | "error">,
+  options: TestClientOptions<S> = {},
+): TestClient<S> => {
+  const isConfig =
+    typeof target.routes === "object" && typeof target.fetch === "function";
+  const routes: RouteObject = isConfig ? target.routes : target;
+  const fallback = isConfig
+    ? (target.fetch as AppConfig<RouteObject, S>["fetch"])
+    : undefined;
+  const onError = isConfig
+    ? (target.error as AppConfig<RouteObject, S>["error"])
+    : undefined;
+
+  const server = options.server ?? createTestServer<S>(options);
+  const baseUrl = server.url.href;
+
+  const notFound = (req: Request): Response | Promise<Response> =>
+    fallback
+      ? fallback(req, server)
+      : new Response("Not Found", { status: 404 });
+
+  const dispatch = async (req: Request): Promise<Response> => {
+    const match = matchRoute(Object.keys(routes), new URL(req.url).pathname);
+    if (!match) return notFound(toBunRequest(req, {}));
+
+    const bunReq = toBunRequest(req, match.params);
+    let value = routes[match.path];
+
+    const isMethodObject =
+      typeof value === "object" &&
+      value !== null &&
+      !(value instanceof Response) &&
+      !(value instanceof Blob);
+    if (isMethodObject) value = value[req.method];
+
+    if (value === undefined || value === false) return notFound(bunReq);
+    if (value instanceof Response) return value.clone();
+    if (value instanceof Blob) return new Response(value);
+    if (typeof value !== "function") {
+      throw new Error(
+        `Route "${match.path}" can't be served by the test client`,
+      );
+    }
+
+    const upgradesBefore = server.upgrades.length;
+    const res = await value(bunReq, server);
+    // Upgraded requests don't need a response in Bun
+    if (res === undefined && server.upgrades.length > upgradesBefore) {
+      return new Response(null, { status: 101 });
+    }
+    return res;
+  };
+
+  return {
+    server,
+    request: (input, init) => {
+      const req = toRequest(input, init, baseUrl);
+      return runWithContext(async () => {
+        options.setup?.(req);
+        try {
+          const res = await dispatch(req);
+          if (req.method !== "HEAD" || !res.body) return res;
+          // Bun sends the headers of HEAD responses only
+          await res.body.cancel();
+          return new Response(null, {
+            status: res.status,
+            statusText: res.statusText,
+            headers: res.headers,
+          });
+        } catch (error) {
+          if (!onError) throw error;
+          return onError(error as Error);
+        }
+      });
+    },
+  };
+};
+
+/**
+ * Result of testMiddleware
+ */
+export interface TestMiddlewareResult {
+  response: Response;
+  /** Whether the middleware called `next()` */
+  nextCalled: boolean;
+}
+
+/**
+ * Options for testMiddleware
+ */
+export interface TestMiddlewareOptions<S = undefined>
+  extends TestClientOptions<S> {
+  /** Request init, e.g. method, headers and body */
+  init?: RequestInit;
+  /** Values for `req.params` */
+  params?: Record<string, string>;
+  /**
+   * Handler called by `next()`, runs in the same context scope
+   * @default () => new Response("OK")
+   */
+  handler?: (
+    req: Bun.BunRequest<string>,
+    server: TestServer<S>,
+  ) => Response | Promise<Response>;
+}
+
+/**
+ * Runs a single middleware (e.g. from createMiddleware) against a request.
+ * The handler behind `next()` shares the middleware's context scope,
+ * so it can read contexts the middleware set.
+ *
+ * @example
+ * ```ts
+ * const { response, nextCalled } = await testMiddleware(auth, "/admin", {
+ *   init: { headers: { Authorization: "Bearer token" } },
+ *   handler: () => Response.json(useContext(UserContext)),
+ * });
+ * ```
+ */
+export const testMiddleware = async <S = undefined>(
+  middleware: Middleware<string, S>,
+  input: string | URL | Request = "/",
+  options: TestMiddlewareOptions<S> = {},
+): Promise<TestMiddlewareResult> => {
+  const server = options.server ?? createTestServer<S>(options);
+  const req = toBunRequest(
+    toRequest(input, options.init, server.url.href),
+    options.params ?? {},
+  );
+  const handler = options.handler ?? (() => new Response("OK"));
+
+  let nextCalled = false;
+  const next: NextFunction = () => {
+    nextCalled = true;
+    return handler(req, server);
+  };
+
+  // Same request scope as routes, so onResponse, after and cookies work
+  return runInRequestScope(req, async (isRoot) => {
+    options.setup?.(req);
+    const result = await middleware(req, server, next);
+    const response = isRoot ? await drainResponseHooks(result) : result;
+    return { response, nextCalled };
+  });
+};
@@ -0,0 +1,56 @@
+// URL helpers shared by the URL builder and the typed client
+// Kept free of runtime imports so the client can be bundled for browsers
+
+import type { QueryParams } from ".";
+
+/**
+ * Fills the parameters of a route path.
+ * @internal
+ */
+export const fillPath = (
+  path: string,
+  params: Record<string, string | number> = {},
+): string => {
+  return path
+    .split("/")
+    .map((segment) => {
+      if (segment.startsWith(":")) {
+        const name = segment.slice(1);
+        const value = params[name];
+        if (value === undefined || value === null) {
+          throw new Error(`Missing param "${name}" for route "${path}"`);
+        }
+        return encodeURIComponent(String(value));
+      }
+      if (segment === "*") {
+        const value = params["*"];
+        if (value === undefined || value === null) {
+          throw new Error(`Missing param "*" for route "${path}"`);
+        }
+        // Wildcards may span multiple segments, keep their slashes
+        return String(value)
+          .split("/")
+          .map((part) => encodeURIComponent(part))
+          .join("/");
+      }
+      return segment;
+    })
+    .join("/");
+};
+
+/**
+ * Serializes query parameters, skipping null and undefined values.
+ * @internal
+ */
+export const buildQuery = (query: QueryParams): string => {
+  const search = new URLSearchParams();
+  for (const [key, value] of Object.entries(query)) {
+    if (value === undefined || value === null) continue;
+    if (Array.isArray(value)) {
+      for (const item of value) search.append(key, String(item));
+    } else {
+      search.append(key, String(value));
+    }
+  }
+  return search.toString();
+};
@@ -0,0 +1,433 @@
+// Request validation based on Standard Schema
+// Works with any Standard Schema v1 library (zod, valibot, arktype, ...)
+
+import type { Middleware } from ".";
+import { BodyContext, type BodyType } from "./body";
+import {
+  createContext,
+  runWithContextValue,
+  setContext,
+  useContext,
+} from "./store";
+
+// ============================================================================
+// Standard Schema Types
+// ============================================================================
+
+/**
+ * A single validation issue, as defined by the Standard Schema spec
+ */
+export interface StandardSchemaIssue {
+  readonly message: string;
+  readonly path?: ReadonlyArray<PropertyKey | { readonly key: PropertyKey }>;
+}
+
+/**
+ * Result of a Standard Schema validation
+ */
+export type StandardSchemaResult<Output> =
+  | { readonly value: Output; readonly issues?: undefined }
+  | { readonly issues: ReadonlyArray<StandardSchemaIssue> };
+
+/**
+ * Standard Schema v1 interface.
+ * Declared locally so abret has no runtime or type dependency on a schema library.
+ *
+ * @see https://standardschema.dev
+ */
+export interface StandardSchemaV1<Input = unknown, Output = Input> {
+  readonly "~standard": {
+    readonly version: 1;
+    readonly vendor: string;
+    readonly validate: (
+      value: unknown,
+    ) => StandardSchemaResult<Output> | Promise<StandardSchemaResult<Output>>;
+    readonly types?:
+      | { readonly input: Input; readonly output: Output }
+      | undefined;
+  };
+}
+
+/**
+ * Infers the output type of a Standard Schema
+ */
+export type InferSchemaOutput<T> =
+  T extends StandardSchemaV1<unknown, infer Output> ? Output : unknown;
+
+/**
+ * Infers the input type of a Standard Schema
+ */
+export type InferSchemaInput<T> =
+  T extends StandardSchemaV1<infer Input, unknown> ? Input : unknown;
+
+// ============================================================================
+// Validation Types
+// ============================================================================
+
+/**
+ * Schemas for the parts of a request that can be validated
+ */
+export interface ValidationSchemas {
+  /** Schema for `req.params` */
+  params?: StandardSchemaV1;
+  /** Schema for the query string, parsed into an object */
+  query?: StandardSchemaV1;
+  /** Schema for the request body, parsed according to its Content-Type */
+  body?: StandardSchemaV1;
+  /**
+   * Schema of the JSON response body. Only describes the route for the
+   * typed client and OpenAPI, responses are not validated.
+   */
+  response?: StandardSchemaV1;
+  /**
+   * Formats the body is documented with in OpenAPI. Defaults to the
+   * `types` of a bodyParser on the route, else JSON.
+   */
+  bodyTypes?: BodyType[];
+}
+
+/**
+ * Parts of a request that are validated
+ */
+export type RequestPart = "params" | "query" | "body";
+
+/**
+ * Type-only key carrying attached schemas
+ * @internal
+ */
+declare const schemaTypes: unique symbol;
+
+/**
+ * A middleware or handler that carries its schemas at the type level,
+ * so route types can expose them to the typed client
+ */
+export interface WithSchemas<Schemas extends ValidationSchemas> {
+  readonly [schemaTypes]?: Schemas;
+}
+
+/**
+ * Extracts the schemas attached to a middleware or handler type
+ */
+export type SchemasOf<T> =
+  T extends WithSchemas<infer Schemas> ? Schemas : Record<never, never>;
+
+/**
+ * Parsed values produced by a set of schemas.
+ * Parts without a schema keep their raw shape.
+ */
+export type ValidatedInput<S extends ValidationSchemas = ValidationSchemas> = {
+  params: S["params"] extends StandardSchemaV1
+    ? InferSchemaOutput<S["params"]>
+    : Record<string, string>;
+  query: S["query"] extends StandardSchemaV1
+    ? InferSchemaOutput<S["query"]>
+    : Record<string, string | string[]>;
+  body: S["body"] extends StandardSchemaV1
+    ? InferSchemaOutput<S["body"]>
+    : unknown;
+};
+
+/**
+ * A validation issue reported in a 400 response
+ */
+export interface ValidationIssue {
+  /** Which part of the request failed */
+  location: RequestPart;
+  message: string;
+  path: PropertyKey[];
+}
+
+/**
+ * Context holding the parsed values of the current request.
+ * Prefer `useValidated` for typed access.
+ */
+export const ValidatedContext = createContext<
+  ValidatedInput,
+  "abret-validated"
+>("abret-validated");
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+/**
+ * Parses the query string into an object, repeated keys become arrays.
+ * @internal
+ */
+const parseQuery = (url: string): Record<string, string | string[]> => {
+  const query: Record<string, string | string[]> = {};
+  for (const [key, value] of new URL(url).searchParams) {
+    const existing = query[key];
+    if (existing === undefined) {
+      query[key] = value;
+    } else if (Array.isArray(existing)) {
+      existing.push(value);
+    } else {
+      query[key] = [existing, value];
+    }
+  }
+  return query;
+};
+
+/**
+ * Bodies parsed by earlier validators of the same request, which
+ * consumed the stream
+ * @internal
+ */
+const parsedBodies = new WeakMap<Request, Promise<unknown>>();
+
+/**
+ * Parses the request body according to its Content-Type, once per request.
+ * Reuses the body already read by bodyParser, if any.
+ * @internal
+ */
+const parseBody = (req: Request): Promise<unknown> => {
+  let parsed = parsedBodies.get(req);
+  if (!parsed) {
+    parsed = readBody(req);
+    parsedBodies.set(req, parsed);
+  }
+  return parsed;
+};
+
+/**
+ * Reads the request body according to its Content-Type.
+ * Form bodies become plain objects, repeated keys become arrays.
+ * @internal
+ */
+const readBody = async (req: Request): Promise<unknown> => {
+  const parsed = useContext(BodyContext);
+  if (parsed) return parsed.data;
+  if (!req.body) return undefined;
+
+  const contentType = req.headers.get("Content-Type") ?? "";
+
+  if (
+    contentType.includes("application/json") ||
+    contentType.includes("+json")
+  ) {
+    const text = await req.text();
+    return text ? JSON.parse(text) : undefined;
+  }
+
+  if (
+    contentType.includes("application/x-www-form-urlencoded") ||
+    contentType.includes("multipart/form-data")
+  ) {
+    const form = await req.formData();
+    const data: Record<string, unknown> = {};
+    for (const key of new Set(form.keys())) {
+      const values = form.getAll(key);
+      data[key] = values.length > 1 ? values : values[0];
+    }
+    return data;
+  }
+
+  return req.text();
+};
+
+/**
+ * Normalizes Standard Schema issue paths to plain keys.
+ * @internal
+ */
+const toIssuePath = (issue: StandardSchemaIssue): PropertyKey[] =>
+  (issue.path ?? []).map((segment) =>
+    typeof segment === "object" ? segment.key : segment,
+  );
+
+/**
+ * Creates the 400 response returned when validation fails
+ * @internal
+ */
+const validationErrorResponse = (issues: ValidationIssue[]): Response =>
+  Response.json(
+    {
+      error: "Validation failed",
+      issues: issues.map((issue) => ({
+        ...issue,
+        path: issue.path.map(String),
+      })),
+    },
+    { status: 400 },
+  );
+
+type ValidationResult =
+  | { success: true; input: ValidatedInput }
+  | { success: false; response: Response };
+
+/**
+ * Validates params, query and body of a request against the given schemas.
+ * All parts are validated so the response can report every issue at once.
+ * Parts validated by an earlier validator of the request keep their parsed
+ * values unless these schemas validate them again.
+ * @internal
+ */
+const validateRequest = async (
+  req: Request,
+  schemas: ValidationSchemas,
+): Promise<ValidationResult> => {
+  const raw: Record<RequestPart, unknown> = {
+    params: (req as Bun.BunRequest).params ?? {},
+    query: parseQuery(req.url),
+    body: undefined,
+  };
+
+  if (schemas.body) {
+    try {
+      raw.body = await parseBody(req);
+    } catch {
+      return {
+        success: false,
+        response: validationErrorResponse([
+          { location: "body", message: "Malformed request body", path: [] },
+        ]),
+      };
+    }
+  }
+
+  const input = {
+    ...(useContext(ValidatedContext) ?? raw),
+  } as ValidatedInput;
+  const issues: ValidationIssue[] = [];
+
+  for (const location of ["params", "query", "body"] as const) {
+    const schema = schemas[location];
+    if (!schema) continue;
+
+    const result = await schema["~standard"].validate(raw[location]);
+    if (result.issues) {
+      for (const issue of result.issues) {
+        issues.push({
+          location,
+          message: issue.message,
+          path: toIssuePath(issue),
+        });
+      }
+    } else {
+      input[location] = result.value as never;
+    }
+  }
+
+  if (issues.length > 0) {
+    return { success: false, response: validationErrorResponse(issues) };
+  }
+
+  return { success: true, input };
+};
+
+/**
+ * Schemas attached to the middlewares and handlers created below,
+ * read by the OpenAPI generator
+ * @internal
+ */
+const attachedSchemas = new WeakMap<object, ValidationSchemas>();
+
+/**
+ * Gets the schemas attached to a middleware or handler, if any
+ * @internal
+ */
+export const getAttachedSchemas = (
+  fn: unknown,
+): ValidationSchemas | undefined =>
+  typeof fn === "function" ? attachedSchemas.get(fn) : undefined;
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Creates a middleware that validates params, query and body of every request
+ * on the route before the handler runs. Parsed values are readable via `useValidated`.
+ * Failures produce a 400 JSON response with the list of issues.
+ *
+ * @example
+ * ```ts
+ * const route = createRoute(
+ *   "/users/:id",
+ *   () => {
+ *     const { params } = useValidated<{ params: typeof IdSchema }>();
+ *     return Response.json({ id: params.id });
+ *   },
+ *   validate({ params: z.object({ id: z.coerce.number() }) }),
+ * );
+ * ```
+ */
+export const validate = <
+  P extends string = string,
+  S = undefined,
+  Schemas extends ValidationSchemas = ValidationSchemas,
+>(
+  schemas: Schemas,
+): Middleware<P, S> & WithSchemas<Schemas> => {
+  const middleware: Middleware<P, S> = async (req, _server, next) => {
+    const result = await validateRequest(req, schemas);
+    if (!result.success) return result.response;
+
+    setContext(ValidatedContext, result.input);
+    return next();
+  };
+  attachedSchemas.set(middleware, schemas);
+  return middleware;
+};
+
+/**
+ * Wraps a handler with validation. The parsed, typed values are passed as
+ * the third argument and are also readable via `useValidated`.
+ * Use it per method in method-object routes.
+ *
+ * @example
+ * ```ts
+ * const route = createRoute("/users", {
+ *   GET: () => Response.json([]),
+ *   POST: withValidation({ body: CreateUserSchema }, (_req, _server, { body }) => {
+ *     return Response.json(body, { status: 201 });
+ *   }),
+ * });
+ * ```
+ */
+export const withValidation = <
+  Schemas extends ValidationSchemas,
+  P extends string = string,
+  S = undefined,
+>(
+  schemas: Schemas,
+  handler: (
+    req: Bun.BunRequest<P>,
+    server: Bun.Server<S>,
+    input: ValidatedInput<Schemas>,
+  ) => Response | Promise<Response>,
+): Bun.Serve.Handler<Bun.BunRequest<P>, Bun.Server<S>, Response> &
+  WithSchemas<Schemas> => {
+  const validated: Bun.Serve.Handler<
+    Bun.BunRequest<P>,
+    Bun.Server<S>,
+    Response
+  > = async (req, server) => {
+    const result = await validateRequest(req, schemas);
+    if (!result.success) return result.response;
+
+    const input = result.input as ValidatedInput<Schemas>;
+    return runWithContextValue(ValidatedContext, result.input, () =>
+      handler(req, server, input),
+    );
+  };
+  attachedSchemas.set(validated, schemas);
+  return validated;
+};
+
+/**
+ * Reads the values parsed by `validate` or `withValidation` for the current request.
+ * Throws if no validation ran in the current context scope.
+ *
+ * @example
+ * ```ts
+ * const { query } = useValidated<{ query: typeof SearchSchema }>();
+ * ```
+ */
+export const useValidated = <
+  Schemas extends ValidationSchemas = ValidationSchemas,
+>(): ValidatedInput<Schemas> => {
+  return useContext(ValidatedContext, {
+    required: true,
+  }) as ValidatedInput<Schemas>;
+};
@@ -0,0 +1,205 @@
+// WebSocket routes
+// Upgrades run through the route's middleware, socket events run in the upgrade's context scope
+
+import { createRoute, type Middleware, type TypedRouteValue } from ".";
+import { HttpError } from "./errors";
+import { getContextStore } from "./store";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Handlers of a WebSocket route.
+ * `Data` is the per-socket data returned by `upgrade`, available as `ws.data`.
+ */
+export interface WebSocketRouteHandlers<
+  P extends string = string,
+  Data extends object = Record<never, never>,
+  S = undefined,
+> {
+  /**
+   * Runs on the upgrade request after the route's middleware.
+   * Returns the socket data, or a Response to refuse the upgrade.
+   */
+  upgrade?: (
+    req: Bun.BunRequest<P>,
+    server: Bun.Server<S>,
+  ) => Data | Response | Promise<Data | Response>;
+  /**
+   * Headers sent with the 101 response
+   */
+  headers?: HeadersInit;
+  open?: (ws: Bun.ServerWebSocket<Data>) => void | Promise<void>;
+  message?: (
+    ws: Bun.ServerWebSocket<Data>,
+    message: string | Buffer<ArrayBuffer>,
+  ) => void | Promise<void>;
+  drain?: (ws: Bun.ServerWebSocket<Data>) => void | Promise<void>;
+  close?: (
+    ws: Bun.ServerWebSocket<Data>,
+    code: number,
+    reason: string,
+  ) => void | Promise<void>;
+}
+
+/**
+ * Handlers and context scope of an upgraded socket
+ * @internal
+ */
+interface SocketState {
+  handlers: Pick<
+    WebSocketRouteHandlers<string, any>,
+    "open" | "message" | "drain" | "close"
+  >;
+  store: Map<symbol, unknown>;
+}
+
+/**
+ * Socket states keyed by the socket's data object
+ * @internal
+ */
+const socketStates = new WeakMap<object, SocketState>();
+
+// ============================================================================
+// Routes
+// ============================================================================
+
+/**
+ * Creates a WebSocket route. Middleware runs on the upgrade request like on
+ * any other route (e.g. to authenticate), then `upgrade` returns the typed
+ * per-socket data. Contexts set during the upgrade are readable with
+ * `useContext` in `open`, `message`, `drain` and `close`.
+ *
+ * Socket events are dispatched by the handler from `createWebSocketHandler`,
+ * which `createApp` sets up automatically.
+ *
+ * @example
+ * ```ts
+ * const chat = createWebSocketRoute(
+ *   "/chat/:room",
+ *   {
+ *     upgrade: (req) => ({ room: req.params.room }),
+ *     open: (ws) => ws.subscribe(ws.data.room),
+ *     message: (ws, message) => {
+ *       const user = useContext(UserContext, { required: true });
+ *       ws.publish(ws.data.room, `${user.name}: ${message}`);
+ *     },
+ *   },
+ *   auth,
+ * );
+ *
+ * Bun.serve({ ...createApp().add(chat).build() });
+ * ```
+ */
+export const createWebSocketRoute = <
+  P extends `/${string}`,
+  Data extends object = Record<never, never>,
+  S = undefined,
+>(
+  path: P,
+  handlers: WebSocketRouteHandlers<P, Data, S>,
+  ...middlewares: Middleware<NoInfer<P>, NoInfer<S>>[]
+): Record<P, TypedRouteValue<P, S>> => {
+  const upgradeHandler = async (
+    req: Bun.BunRequest<P>,
+    server: Bun.Server<S>,
+  ): Promise<Response> => {
+    const result = handlers.upgrade
+      ? await handlers.upgrade(req, server)
+      : ({} as Data);
+    if (result instanceof Response) return result;
+
+    const data = (result ?? {}) as Data;
+    // The socket keeps a copy of the upgrade's context scope
+    socketStates.set(data, {
+      handlers,
+      store: new Map(getContextStore().getStore()),
+    });
+
+    const upgraded = (
+      server as unknown as {
+        upgrade(
+          req: Request,
+          options: { data: Data; headers?: HeadersInit },
+        ): boolean;
+      }
+    ).upgrade(req, { data, headers: handlers.headers });
+    if (!upgraded) {
+      throw new HttpError(426, "Expected a WebSocket upgrade", {
+        headers: { Upgrade: "websocket" },
+      });
+    }
+
+    // Bun ignores the response of upgraded requests, returning one keeps
+    // middleware that reads the response working
+    return new Response(null, { status: 101 });
+  };
+
+  return createRoute<P, S, typeof upgradeHandler, Middleware<P, S>[]>(
+    path,
+    upgradeHandler,
+    ...middlewares,
+  );
+};
+
+/**
+ * Runs a socket event in the socket's context scope
+ * @internal
+ */
+const dispatch = <R>(
+  ws: Bun.ServerWebSocket<unknown>,
+  handle: (state: SocketState) => R,
+  fallback: () => R,
+): R => {
+  const state =
+    typeof ws.data === "object" && ws.data !== null
+      ? socketStates.get(ws.data)
+      : undefined;
+  if (!state) return fallback();
+  return getContextStore().run(state.store, () => handle(state));
+};
+
+/**
+ * Creates the `websocket` option for `Bun.serve`, dispatching socket events
+ * to the WebSocket routes they were upgraded by. Sockets upgraded elsewhere
+ * go to `fallback`, whose options (e.g. `idleTimeout`) are kept.
+ * `createApp().build()` already includes it.
+ *
+ * @example
+ * ```ts
+ * Bun.serve({
+ *   routes: mergeRoutes(chat, home),
+ *   websocket: createWebSocketHandler(),
+ * });
+ * ```
+ */
+export const createWebSocketHandler = <S = undefined>(
+  fallback?: Bun.WebSocketHandler<S>,
+): Bun.WebSocketHandler<S> => ({
+  ...fallback,
+  open: (ws) =>
+    dispatch(
+      ws,
+      (state) => state.handlers.open?.(ws),
+      () => fallback?.open?.(ws),
+    ),
+  message: (ws, message) =>
+    dispatch(
+      ws,
+      (state) => state.handlers.message?.(ws, message),
+      () => fallback?.message(ws, message),
+    ),
+  drain: (ws) =>
+    dispatch(
+      ws,
+      (state) => state.handlers.drain?.(ws),
+      () => fallback?.drain?.(ws),
+    ),
+  close: (ws, code, reason) =>
+    dispatch(
+      ws,
+      (state) => state.handlers.close?.(ws, code, reason),
+      () => fallback?.close?.(ws, code, reason),
+    ),
+});
@@ -0,0 +1,159 @@
+import { describe, expect, test } from "bun:test";
+import {
+  createApp,
+  createMiddleware,
+  createRoute,
+  createRouteGroup,
+  createUrlBuilder,
+  HttpError,
+} from "../src";
+import { createContext, setContext, useContext } from "../src/store";
+
+describe("createApp", () => {
+  test("produces a config that can be spread into Bun.serve", async () => {
+    const api = createRouteGroup("/api");
+    const app = createApp()
+      .add(createRoute("/", () => new Response("Home")))
+      .add(api("/users/:id", (req) => Response.json({ id: req.params.id })));
+
+    const server = Bun.serve({ port: 0, ...app.build() });
+
+    try {
+      const home = await fetch(server.url);
+      expect(await home.text()).toBe("Home");
+
+      const user = await fetch(new URL("/api/users/7", server.url));
+      expect(await user.json()).toEqual({ id: "7" });
+
+      const missing = await fetch(new URL("/nope", server.url));
+      expect(missing.status).toBe(404);
+      expect(await missing.json()).toEqual({ error: "Not Found" });
+    } finally {
+      server.stop();
+    }
+  });
+
+  test("applies global middleware to every route, including static responses", async () => {
+    const app = createApp({
+      middleware: [
+        createMiddleware(async (_req, _server, next) => {
+          const res = await next();
+          res.headers.set("X-Powered-By", "abret");
+          return res;
+        }),
+      ],
+    });
+    app.add(
+      createRoute("/static", new Response("static")),
+      createRoute("/methods", { GET: new Response("get") }),
+      createRoute("/dynamic", () => new Response("dynamic")),
+    );
+
+    const server = Bun.serve({ port: 0, ...app.build() });
+
+    try {
+      for (const path of ["/static", "/methods", "/dynamic", "/missing"]) {
+        // Request twice to make sure static bodies are not consumed
+        for (let i = 0; i < 2; i++) {
+          const res = await fetch(new URL(path, server.url));
+          expect(res.headers.get("X-Powered-By")).toBe("abret");
+          await res.text();
+        }
+      }
+    } finally {
+      server.stop();
+    }
+  });
+
+  test("global middleware runs before route middleware", async () => {
+    const order: string[] = [];
+    const track = (name: string) =>
+      createMiddleware((_req, _server, next) => {
+        order.push(name);
+        return next();
+      });
+
+    const app = createApp({ middleware: [track("global")] })
+      .use(track("used"))
+      .add(
+        createRoute(
+          "/",
+          () => {
+            order.push("handler");
+            return new Response("OK");
+          },
+          track("route"),
+        ),
+      );
+
+    const { routes } = app.build();
+    await (routes["/"] as any)(new Request("http://localhost/"), {});
+
+    expect(order).toEqual(["global", "used", "route", "handler"]);
+  });
+
+  test("not-found handler runs inside the global context scope", async () => {
+    const TenantContext = createContext<string, "tenant">("tenant");
+
+    const app = createApp({
+      middleware: [
+        createMiddleware((_req, _server, next) => {
+          setContext(TenantContext, "acme");
+          return next();
+        }),
+      ],
+      notFound: (req) =>
+        new Response(
+          `${useContext(TenantContext)} has no ${new URL(req.url).pathname}`,
+          { status: 404 },
+        ),
+    });
+
+    const { fetch: fallback } = app.build();
+    const res = await fallback(new Request("http://localhost/x"), {} as any);
+
+    expect(res.status).toBe(404);
+    expect(await res.text()).toBe("acme has no /x");
+  });
+
+  test("app-wide error hook handles route and not-found errors", async () => {
+    const app = createApp({
+      onError: (error) =>
+        new Response(`handled ${(error as HttpError).status}`, {
+          status: 500,
+        }),
+      notFound: () => {
+        throw new HttpError(404);
+      },
+    }).add(
+      createRoute("/fail", () => {
+        throw new HttpError(418);
+      }),
+    );
+
+    const { routes, fetch: fallback } = app.build();
+
+    const res = await (routes["/fail"] as any)(
+      new Request("http://localhost/fail"),
+      {},
+    );
+    expect(await res.text()).toBe("handled 418");
+
+    const missing = await fallback(
+      new Request("http://localhost/x"),
+      {} as any,
+    );
+    expect(await missing.text()).toBe("handled 404");
+  });
+
+  test("keeps route types for the URL builder", () => {
+    const app = createApp().add(
+      createRoute("/posts/:slug", () => new Response()),
+    );
+    const urlFor = createUrlBuilder(app.build().routes);
+
+    expect(urlFor("/posts/:slug", { params: { slug: "hello" } })).toBe(
+      "/posts/hello",
+    );
+  });
+});
@@ -0,0 +1,276 @@
+import { afterAll, describe, expect, test } from "bun:test";
+import { existsSync, mkdtempSync, readdirSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import {
+  after,
+  createRoute,
+  type StandardSchemaV1,
+  useValidated,
+  validate,
+} from "../src";
+import { bodyParser, type UploadedFile, useBody } from "../src/middleware/body";
+import { createTestClient } from "../src/testing";
+import { clientFor, type TestRoutes } from "./helpers";
+
+const tmp = mkdtempSync(path.join(tmpdir(), "abret-body-"));
+afterAll(() => rmSync(tmp, { recursive: true, force: true }));
+
+/**
+ * Route echoing the parsed body
+ */
+const echo: TestRoutes = {
+  "/": { POST: () => Response.json(useBody() ?? null) },
+};
+
+/**
+ * Body streamed in chunks, without a Content-Length
+ */
+const streamBody = (...chunks: string[]) =>
+  new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const chunk of chunks) {
+        controller.enqueue(new TextEncoder().encode(chunk));
+      }
+      controller.close();
+    },
+  });
+
+describe("bodyParser", () => {
+  test("parses JSON, urlencoded and text bodies", async () => {
+    const client = clientFor(echo, [bodyParser()]);
+
+    const json = await client.request("/", {
+      method: "POST",
+      headers: { "Content-Type": "application/vnd.api+json" },
+      body: JSON.stringify({ name: "Ada" }),
+    });
+    expect(await json.json()).toEqual({ type: "json", data: { name: "Ada" } });
+
+    const form = await client.request("/", {
+      method: "POST",
+      body: new URLSearchParams("tag=a&tag=b&q=search"),
+    });
+    expect(await form.json()).toEqual({
+      type: "urlencoded",
+      data: { tag: ["a", "b"], q: "search" },
+    });
+
+    const text = await client.request("/", {
+      method: "POST",
+      headers: { "Content-Type": "text/plain; charset=utf-8" },
+      body: "héllo",
+    });
+    expect(await text.json()).toEqual({ type: "text", data: "héllo" });
+  });
+
+  test("skips requests without a body", async () => {
+    const client = createTestClient(
+      createRoute("/", () => Response.json(useBody() ?? null), bodyParser()),
+    );
+    expect(await (await client.request("/")).json()).toBeNull();
+  });
+
+  test("rejects unsupported and malformed bodies", async () => {
+    const client = clientFor(echo, [bodyParser({ types: ["json"] })]);
+
+    const unsupported = await client.request("/", {
+      method: "POST",
+      body: new URLSearchParams("a=1"),
+    });
+    expect(unsupported.status).toBe(415);
+    expect(await unsupported.json()).toEqual({
+      error: 'Unsupported content type "application/x-www-form-urlencoded"',
+    });
+
+    const malformed = await client.request("/", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: "{not json",
+    });
+    expect(malformed.status).toBe(400);
+    expect(await malformed.json()).toEqual({ error: "Invalid JSON body" });
+  });
+
+  test("enforces the limit from Content-Length and while streaming", async () => {
+    const client = clientFor(echo, [bodyParser({ limit: 8 })]);
+    const expected = { error: "Body exceeds the limit of 8 bytes" };
+
+    const declared = await client.request("/", {
+      method: "POST",
+      headers: { "Content-Type": "text/plain" },
+      body: "way past the limit",
+    });
+    expect(declared.status).toBe(413);
+    expect(await declared.json()).toEqual(expected);
+
+    const streamed = await client.request("/", {
+      method: "POST",
+      headers: { "Content-Type": "text/plain" },
+      body: streamBody("12345", "67890"),
+    });
+    expect(streamed.status).toBe(413);
+    expect(await streamed.json()).toEqual(expected);
+
+    const fits = await client.request("/", {
+      method: "POST",
+      headers: { "Content-Type": "text/plain" },
+      body: streamBody("1234", "5678"),
+    });
+    expect(await fits.json()).toEqual({ type: "text", data: "12345678" });
+  });
+
+  test("parses multipart bodies and spills large files to disk", async () => {
+    const tempDir = mkdtempSync(path.join(tmp, "uploads-"));
+    let spilled: UploadedFile | undefined;
+
+    const client = createTestClient(
+      createRoute(
+        "/",
+        {
+          POST: async () => {
+            const body = useBody();
+            if (body?.type !== "multipart") throw new Error("not multipart");
+            const small = body.data.small as UploadedFile;
+            spilled = body.data.large as UploadedFile;
+            return Response.json({
+              title: body.data.title,
+              small: [
+                small.filename,
+                small.type,
+                small.path ?? null,
+                await small.file.text(),
+              ],
+              large: [spilled.size, existsSync(spilled.path ?? "")],
+              content: (await spilled.file.text()) === "x".repeat(5000),
+            });
+          },
+        },
+        bodyParser({ fileThreshold: 1024, tempDir }),
+      ),
+    );
+
+    const form = new FormData();
+    form.append("title", "Report");
+    form.append("small", new File(["hello"], "a.csv", { type: "text/csv" }));
+    form.append("large", new File(["x".repeat(5000)], "b.bin"));
+
+    const res = await client.request("/", { method: "POST", body: form });
+    expect(await res.json()).toEqual({
+      title: "Report",
+      small: ["a.csv", "text/csv", null, "hello"],
+      large: [5000, true],
+      content: true,
+    });
+
+    // Temp files are removed once the response was delivered
+    await Bun.sleep(20);
+    expect(spilled?.path?.startsWith(tempDir)).toBe(true);
+    expect(readdirSync(tempDir)).toEqual([]);
+  });
+
+  test("keeps temp files until the response and after hooks read them", async () => {
+    const tempDir = mkdtempSync(path.join(tmp, "uploads-"));
+    const { promise: audited, resolve } = Promise.withResolvers<string>();
+    let release = () => {};
+
+    const client = createTestClient(
+      createRoute(
+        "/",
+        {
+          POST: () => {
+            const body = useBody();
+            if (body?.type !== "multipart") throw new Error("not multipart");
+            const upload = body.data.upload as UploadedFile;
+            after(async () => {
+              await new Promise<void>((done) => {
+                release = done;
+              });
+              resolve(await upload.file.text());
+            });
+            return new Response(upload.file);
+          },
+        },
+        bodyParser({ fileThreshold: 1024, tempDir }),
+      ),
+    );
+
+    const form = new FormData();
+    form.append("upload", new File(["x".repeat(5000)], "b.bin"));
+    const res = await client.request("/", { method: "POST", body: form });
+
+    // The body hasn't been read yet
+    await Bun.sleep(20);
+    expect(readdirSync(tempDir)).toHaveLength(1);
+    expect(await res.text()).toBe("x".repeat(5000));
+
+    // An after hook still reads the file
+    await Bun.sleep(20);
+    expect(readdirSync(tempDir)).toHaveLength(1);
+    release();
+    expect(await audited).toBe("x".repeat(5000));
+
+    await Bun.sleep(20);
+    expect(readdirSync(tempDir)).toEqual([]);
+  });
+
+  test("rejects malformed multipart bodies and removes temp files", async () => {
+    const tempDir = mkdtempSync(path.join(tmp, "uploads-"));
+    const client = clientFor(echo, [bodyParser({ fileThreshold: 4, tempDir })]);
+    const headers = { "Content-Type": "multipart/form-data; boundary=XYZ" };
+
+    const truncated = await client.request("/", {
+      method: "POST",
+      headers,
+      body: streamBody(
+        "--XYZ\r\n",
+        'Content-Disposition: form-data; name="file"; filename="a.txt"\r\n\r\n',
+        "more than four bytes",
+      ),
+    });
+    expect(truncated.status).toBe(400);
+    expect(await truncated.json()).toEqual({
+      error: "Malformed multipart body",
+    });
+    expect(readdirSync(tempDir)).toEqual([]);
+
+    const missingBoundary = await client.request("/", {
+      method: "POST",
+      headers: { "Content-Type": "multipart/form-data" },
+      body: "--XYZ--",
+    });
+    expect(missingBoundary.status).toBe(400);
+  });
+
+  test("validate reuses the parsed body", async () => {
+    const Name = {
+      "~standard": {
+        version: 1,
+        vendor: "test",
+        validate: (value: unknown) => {
+          const name = (value as { name?: unknown })?.name;
+          return typeof name === "string"
+            ? { value: { name } }
+            : { issues: [{ message: "name is required" }] };
+        },
+      },
+    } as StandardSchemaV1<unknown, { name: string }>;
+
+    const client = createTestClient(
+      createRoute(
+        "/",
+        {
+          POST: () => Response.json(useValidated<{ body: typeof Name }>().body),
+        },
+        bodyParser(),
+        validate({ body: Name }),
+      ),
+    );
+
+    const res = await client.request("/", {
+      method: "POST",
+      body: new URLSearchParams("name=Grace"),
+    });
+    expect(await res.json()).toEqual({ name: "Grace" });
+  });
+});
@@ -0,0 +1,164 @@
+import { describe, expect, expectTypeOf, test } from "bun:test";
+import {
+  createApp,
+  createRoute,
+  createRouteGroup,
+  mergeRoutes,
+  type StandardSchemaV1,
+  validate,
+  withValidation,
+} from "../src";
+import { createClient } from "../src/client";
+
+// Minimal typed Standard Schema, validation is not what's under test here
+const schema = <Input, Output = Input>(): StandardSchemaV1<Input, Output> => ({
+  "~standard": {
+    version: 1,
+    vendor: "test",
+    validate: (value) => ({ value: value as Output }),
+  },
+});
+
+interface User {
+  id: number;
+  name: string;
+}
+
+const UserSchema = schema<User>();
+const CreateUser = schema<{ name: string }>();
+const ListQuery = schema<{ page?: number; q: string }>();
+
+const api = createRouteGroup("/api");
+
+const routes = mergeRoutes(
+  createRoute("/", () => new Response("Home")),
+  api("/users", {
+    GET: {
+      handler: () => Response.json([]),
+      middleware: [validate({ query: ListQuery, response: schema<User[]>() })],
+    },
+    POST: withValidation(
+      { body: CreateUser, response: UserSchema },
+      (_req, _server, { body }) =>
+        Response.json({ id: 1, name: body.name }, { status: 201 }),
+    ),
+  }),
+  createRoute(
+    "/api/users/:id",
+    (req) => Response.json({ id: Number(req.params.id), name: "Ada" }),
+    validate({ response: UserSchema }),
+  ),
+  createRoute("/files/*", (req) => new Response(new URL(req.url).pathname)),
+);
+
+/**
+ * Fake fetch recording requests instead of sending them
+ */
+const recorder = () => {
+  const requests: Request[] = [];
+  const fetch = async (input: string, init: RequestInit) => {
+    requests.push(new Request(input, init));
+    return Response.json({ ok: true });
+  };
+  return { requests, fetch };
+};
+
+describe("createClient", () => {
+  test("calls routes on a real server with inferred types", async () => {
+    const server = Bun.serve({ port: 0, ...createApp().add(routes).build() });
+
+    try {
+      const client = createClient<typeof routes>(server.url);
+
+      const res = await client["/api/users/:id"].GET({ params: { id: 7 } });
+      const user = await res.json();
+      expectTypeOf(user).toEqualTypeOf<User>();
+      expect(user).toEqual({ id: 7, name: "Ada" });
+
+      const created = await client["/api/users"].POST({
+        body: { name: "Grace" },
+      });
+      expect(created.status).toBe(201);
+      expect(await created.json()).toEqual({ id: 1, name: "Grace" });
+
+      const home = await client["/"].GET();
+      expect(await home.text()).toBe("Home");
+    } finally {
+      server.stop();
+    }
+  });
+
+  test("builds URLs from params and query", async () => {
+    const { requests, fetch } = recorder();
+    const client = createClient<typeof routes>("http://localhost:3000/", {
+      fetch,
+    });
+
+    await client["/api/users"].GET({ query: { q: "a b", page: 2 } });
+    await client["/files/*"].GET({ params: { "*": "docs/read me.md" } });
+
+    expect(requests.map((req) => req.url)).toEqual([
+      "http://localhost:3000/api/users?q=a+b&page=2",
+      "http://localhost:3000/files/docs/read%20me.md",
+    ]);
+  });
+
+  test("sends JSON bodies and merges headers", async () => {
+    const { requests, fetch } = recorder();
+    const client = createClient<typeof routes>("http://localhost", {
+      fetch,
+      headers: () => ({ Authorization: "Bearer token", "X-Client": "a" }),
+    });
+
+    await client["/api/users"].POST({
+      body: { name: "Ada" },
+      headers: { "X-Client": "b" },
+    });
+
+    const [req] = requests;
+    expect(req?.method).toBe("POST");
+    expect(req?.headers.get("Content-Type")).toBe("application/json");
+    expect(req?.headers.get("Authorization")).toBe("Bearer token");
+    expect(req?.headers.get("X-Client")).toBe("b");
+    expect(await req?.json()).toEqual({ name: "Ada" });
+  });
+
+  test("passes fetch-compatible bodies through", async () => {
+    const { requests, fetch } = recorder();
+    const client = createClient<typeof routes>("http://localhost", { fetch });
+
+    const form = new FormData();
+    form.set("name", "Ada");
+    await client["/"].POST({ body: form });
+
+    expect(requests[0]?.headers.get("Content-Type")).toStartWith(
+      "multipart/form-data",
+    );
+  });
+
+  test("rejects unknown paths, methods and missing input at compile time", () => {
+    const client = createClient<typeof routes>("http://localhost", {
+      fetch: recorder().fetch,
+    });
+
+    const check = () => {
+      // @ts-expect-error - unknown path
+      client["/nope"].GET();
+      // @ts-expect-error - DELETE is not defined for /api/users
+      client["/api/users"].DELETE();
+      // @ts-expect-error - params are required
+      client["/api/users/:id"].GET();
+      // @ts-expect-error - body does not match the schema
+      client["/api/users"].POST({ body: { title: "x" } });
+      // @ts-expect-error - query is required by the schema
+      client["/api/users"].GET();
+    };
+    expect(check).toBeFunction();
+  });
+
+  test("is not mistaken for a promise", async () => {
+    const client = createClient<typeof routes>("http://localhost");
+    const resolved = await Promise.resolve(client);
+    expect(resolved).toBe(client);
+  });
+});
@@ -0,0 +1,197 @@
+import { describe, expect, test } from "bun:test";
+import { brotliDecompressSync, gunzipSync, inflateSync } from "node:zlib";
+import { sse } from "../src";
+import { html } from "../src/html";
+import { jsx } from "../src/jsx";
+import { type CompressOptions, compress } from "../src/middleware/compress";
+import { clientFor, type TestRoutes } from "./helpers";
+
+const text = "abret compresses responses. ".repeat(100);
+
+/**
+ * Routes sending different kinds of bodies
+ */
+const bodies: TestRoutes = {
+  "/text": () =>
+    new Response(text, { headers: { "Content-Type": "text/plain" } }),
+  "/untyped": () => new Response(text),
+  "/small": () =>
+    new Response("tiny", {
+      headers: { "Content-Type": "text/plain", "Content-Length": "4" },
+    }),
+  "/ok": () => Response.json({ ok: true }),
+  "/json": () =>
+    Response.json(
+      { text },
+      { headers: { "Content-Length": "3000", ETag: '"v1"' } },
+    ),
+  "/image": () =>
+    new Response(new Uint8Array(4096), {
+      headers: { "Content-Type": "image/png" },
+    }),
+  "/no-transform": () =>
+    new Response(text, {
+      headers: { "Cache-Control": "public, no-transform" },
+    }),
+  "/page": () => {
+    const Async = async () => jsx("p", { children: text });
+    return html(jsx("main", { children: jsx(Async, {}) }));
+  },
+  "/events": (req) =>
+    sse(req, (stream) => stream.send("ready", "now"), { heartbeat: false }),
+  "/stream": () => {
+    const encoder = new TextEncoder();
+    return new Response(
+      new ReadableStream({
+        async start(controller) {
+          for (let i = 0; i < 3; i++) {
+            controller.enqueue(encoder.encode(text));
+            await Bun.sleep(1);
+          }
+          controller.close();
+        },
+      }),
+      { headers: { "Content-Type": "text/plain" } },
+    );
+  },
+};
+
+/**
+ * Requests a route accepting `encoding`
+ */
+const fetchWith = (path: string, encoding: string, options?: CompressOptions) =>
+  clientFor(bodies, [compress(options)]).request(path, {
+    headers: { "Accept-Encoding": encoding },
+  });
+
+const bytesOf = async (res: Response) => Buffer.from(await res.arrayBuffer());
+
+describe("compress", () => {
+  test.each([
+    ["br", brotliDecompressSync],
+    ["gzip", gunzipSync],
+    ["deflate", inflateSync],
+  ] as const)("compresses with %s", async (encoding, decompress) => {
+    const res = await fetchWith("/text", encoding);
+
+    expect(res.headers.get("Content-Encoding")).toBe(encoding);
+    expect(res.headers.get("Vary")).toBe("Accept-Encoding");
+    const body = await bytesOf(res);
+    expect(body.length).toBeLessThan(text.length / 10);
+    expect(decompress(body).toString()).toBe(text);
+  });
+
+  test("compresses with zstd where supported", async () => {
+    const res = await fetchWith("/text", "zstd");
+    expect(res.headers.get("Content-Encoding")).toBe("zstd");
+    expect(Bun.zstdDecompressSync(await bytesOf(res)).toString()).toBe(text);
+  });
+
+  test("picks the preferred encoding the client accepts", async () => {
+    const encodingOf = async (header: string, options?: CompressOptions) =>
+      (await fetchWith("/text", header, options)).headers.get(
+        "Content-Encoding",
+      );
+
+    expect(await encodingOf("gzip, deflate, br")).toBe("br");
+    expect(await encodingOf("gzip;q=1, br;q=0.5")).toBe("gzip");
+    expect(await encodingOf("*;q=0.1, br;q=0")).toBe("zstd");
+    expect(await encodingOf("gzip, br", { encodings: ["gzip"] })).toBe("gzip");
+    expect(await encodingOf("identity")).toBeNull();
+    expect(await encodingOf("gzip;q=0")).toBeNull();
+  });
+
+  test("skips small, incompressible, untyped and no-transform bodies", async () => {
+    for (const path of ["/small", "/image", "/untyped", "/no-transform"]) {
+      const res = await fetchWith(path, "gzip");
+      expect(res.headers.get("Content-Encoding")).toBeNull();
+    }
+
+    const small = await fetchWith("/small", "gzip");
+    expect(await small.text()).toBe("tiny");
+    const compressed = await fetchWith("/small", "gzip", { threshold: 1 });
+    expect(compressed.headers.get("Content-Encoding")).toBe("gzip");
+  });
+
+  test("sizes small bodies without a Content-Length", async () => {
+    const res = await fetchWith("/ok", "gzip");
+    expect(res.headers.get("Content-Encoding")).toBeNull();
+    expect(res.headers.has("Vary")).toBe(false);
+    expect(await res.json()).toEqual({ ok: true });
+
+    const compressed = await fetchWith("/ok", "gzip", { threshold: 8 });
+    expect(compressed.headers.get("Content-Encoding")).toBe("gzip");
+    expect(gunzipSync(await bytesOf(compressed)).toString()).toBe(
+      '{"ok":true}',
+    );
+  });
+
+  test("drops Content-Length and weakens strong ETags", async () => {
+    const res = await fetchWith("/json", "gzip");
+
+    expect(res.headers.get("Content-Encoding")).toBe("gzip");
+    expect(res.headers.has("Content-Length")).toBe(false);
+    expect(res.headers.get("ETag")).toBe('W/"v1"');
+    expect(JSON.parse(gunzipSync(await bytesOf(res)).toString())).toEqual({
+      text,
+    });
+  });
+
+  test("compresses streamed bodies chunk by chunk", async () => {
+    const res = await fetchWith("/stream", "gzip");
+    const reader = (res.body as ReadableStream<Uint8Array>).getReader();
+
+    // The first text chunk can be decoded before the stream ends
+    const first = await reader.read();
+    const partial = gunzipSync(first.value as Uint8Array, {
+      finishFlush: 2, // Z_SYNC_FLUSH, the stream isn't finished
+    });
+    expect(partial.toString()).toBe(text);
+
+    const chunks = [first.value as Uint8Array];
+    for (
+      let next = await reader.read();
+      !next.done;
+      next = await reader.read()
+    ) {
+      chunks.push(next.value);
+    }
+    expect(gunzipSync(Buffer.concat(chunks)).toString()).toBe(text.repeat(3));
+  });
+
+  test("compresses bodies of unknown length without waiting for more", async () => {
+    const res = await fetchWith("/stream", "gzip", { threshold: 1024 * 1024 });
+    expect(res.headers.get("Content-Encoding")).toBe("gzip");
+  });
+
+  test("sends server-sent events uncompressed as they come", async () => {
+    const res = await fetchWith("/events", "gzip");
+    const reader = (res.body as ReadableStream<Uint8Array>).getReader();
+
+    const first = await Promise.race([
+      reader.read().then(({ value }) => new TextDecoder().decode(value)),
+      Bun.sleep(500).then(() => "timed out"),
+    ]);
+    expect(first).toBe("event: ready\ndata: now\n\n");
+    expect(res.headers.get("Content-Encoding")).toBeNull();
+    await reader.cancel();
+  });
+
+  test("compresses html() responses with async components", async () => {
+    const res = await fetchWith("/page", "br");
+
+    expect(res.headers.get("Content-Encoding")).toBe("br");
+    expect(res.headers.get("Content-Type")).toBe("text/html; charset=utf-8");
+    expect(brotliDecompressSync(await bytesOf(res)).toString()).toBe(
+      `<main><p>${text}</p></main>`,
+    );
+  });
+
+  test("leaves HEAD requests alone", async () => {
+    const res = await clientFor(bodies, [compress()]).request("/text", {
+      method: "HEAD",
+      headers: { "Accept-Encoding": "gzip" },
+    });
+    expect(res.headers.get("Content-Encoding")).toBeNull();
+  });
+});
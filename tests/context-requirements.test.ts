@@ -0,0 +1,214 @@
+import { describe, expect, expectTypeOf, test } from "bun:test";
+import {
+  createApp,
+  createContext,
+  createMiddleware,
+  createRoute,
+  createRouteGroup,
+  type MissingContexts,
+  type ProvidedContexts,
+  type RequiredContexts,
+  requireContext,
+  useContext,
+} from "../src";
+import { RequestIdContext, requestId } from "../src/middleware/logger";
+import { type Context, setContext } from "../src/store";
+import { createTestClient } from "../src/testing";
+
+interface User {
+  name: string;
+}
+
+interface Tenant {
+  slug: string;
+}
+
+const UserContext = createContext<User, "user">("user");
+const TenantContext = createContext<Tenant, "tenant">("tenant");
+
+const auth = createMiddleware(
+  (_req, _server, next) => {
+    setContext(UserContext, { name: "ada" });
+    return next();
+  },
+  { name: "auth", provides: [UserContext] },
+);
+
+const tenant = createMiddleware(
+  (_req, _server, next) => {
+    setContext(TenantContext, { slug: "acme" });
+    return next();
+  },
+  { provides: [TenantContext] },
+);
+
+const logger = createMiddleware((_req, _server, next) => next());
+
+const me = requireContext([UserContext], () =>
+  Response.json(useContext(UserContext, { required: true })),
+);
+
+describe("context requirements", () => {
+  test("middleware and handlers carry their contexts at the type level", () => {
+    expectTypeOf<ProvidedContexts<typeof auth>>().toEqualTypeOf<
+      typeof UserContext
+    >();
+    expectTypeOf<ProvidedContexts<typeof logger>>().toBeNever();
+    expectTypeOf<RequiredContexts<typeof me>>().toEqualTypeOf<
+      typeof UserContext
+    >();
+    expectTypeOf<RequiredContexts<() => Response>>().toBeNever();
+  });
+
+  test("requireContext returns the function unchanged", async () => {
+    const handler = () => new Response("ok");
+    expect(requireContext([UserContext], handler)).toBe(handler);
+  });
+
+  test("routes type-check when their middleware provides the contexts", async () => {
+    const routes = createRoute("/me", me, logger, auth);
+    const res = await createTestClient(routes).request("/me");
+    expect(await res.json()).toEqual({ name: "ada" });
+
+    const check = () => {
+      // @ts-expect-error - nothing provides UserContext
+      createRoute("/me", me);
+      // @ts-expect-error - tenant provides another context
+      createRoute("/me", me, tenant);
+      // @ts-expect-error - a single method is enough to fail
+      createRoute("/me", { GET: () => new Response(), POST: me }, logger);
+    };
+    expect(check).toBeFunction();
+  });
+
+  test("contexts of the same value type are told apart by name", () => {
+    const TraceContext = createContext<string, "trace">("trace");
+    const trace = createMiddleware(
+      (_req, _server, next) => {
+        setContext(TraceContext, "trace-1");
+        return next();
+      },
+      { provides: [TraceContext] },
+    );
+    const handler = requireContext([RequestIdContext], () => {
+      return new Response(useContext(RequestIdContext));
+    });
+
+    createRoute("/", handler, requestId());
+
+    const check = () => {
+      // @ts-expect-error - TraceContext holds a string too, but isn't RequestIdContext
+      createRoute("/", handler, trace);
+    };
+    expect(check).toBeFunction();
+  });
+
+  test("contexts without a literal name provide nothing", () => {
+    // Typed by hand, its name widened to string
+    const LocaleContext = createContext<string, "locale">(
+      "locale",
+    ) as Context<string>;
+    const locale = createMiddleware(
+      (_req, _server, next) => {
+        setContext(LocaleContext, "en");
+        return next();
+      },
+      { provides: [LocaleContext] },
+    );
+    const handler = requireContext([RequestIdContext], () => {
+      return new Response(useContext(RequestIdContext));
+    });
+
+    expectTypeOf<ProvidedContexts<typeof locale>>().toBeNever();
+
+    const check = () => {
+      // @ts-expect-error - an unnamed context can't stand in for RequestIdContext
+      createRoute("/", handler, locale);
+      // @ts-expect-error - the name is required with an explicit value type
+      createContext<string>("locale");
+      // @ts-expect-error - and must be a literal
+      createContext<string, string>("locale");
+    };
+    expect(check).toBeFunction();
+  });
+
+  test("method entries can provide contexts with their own middleware", () => {
+    createRoute("/me", {
+      GET: { handler: me, middleware: [auth] },
+      POST: () => new Response(),
+    });
+
+    expectTypeOf<
+      MissingContexts<{ GET: { handler: typeof me } }, never>
+    >().toEqualTypeOf<typeof UserContext>();
+  });
+
+  test("components pass their requirements to the handlers using them", () => {
+    const Badge = requireContext([TenantContext], () => {
+      return useContext(TenantContext, { required: true }).slug;
+    });
+    const page = requireContext([UserContext, Badge], () => {
+      const user = useContext(UserContext, { required: true });
+      return new Response(`${user.name} @ ${Badge()}`);
+    });
+
+    expectTypeOf<RequiredContexts<typeof page>>().toEqualTypeOf<
+      typeof UserContext | typeof TenantContext
+    >();
+
+    createRoute("/page", page, auth, tenant);
+
+    const check = () => {
+      // @ts-expect-error - TenantContext is required by Badge
+      createRoute("/page", page, auth);
+    };
+    expect(check).toBeFunction();
+  });
+
+  test("groups provide the contexts of their middlewares to child groups", async () => {
+    const api = createRouteGroup("/api", [logger, auth]);
+    const org = api.group("/orgs/:org", [tenant]);
+    const page = requireContext([UserContext, TenantContext], () => {
+      const user = useContext(UserContext, { required: true });
+      const current = useContext(TenantContext, { required: true });
+      return new Response(`${user.name} @ ${current.slug}`);
+    });
+
+    const routes = org("/page", page);
+    const res = await createTestClient(routes).request("/api/orgs/acme/page");
+    expect(await res.text()).toBe("ada @ acme");
+
+    api("/me", me);
+
+    const check = () => {
+      // @ts-expect-error - TenantContext is only provided by the child group
+      api("/page", page);
+      // @ts-expect-error - the group has no middleware
+      createRouteGroup("/public")("/me", me);
+    };
+    expect(check).toBeFunction();
+  });
+
+  test("app groups count the contexts of global middleware", async () => {
+    const app = createApp({ middleware: [logger, auth] });
+    const routes = app.group("");
+    const org = app.use(tenant).group("/orgs/:org");
+    const page = requireContext(
+      [UserContext, TenantContext],
+      () => new Response(useContext(TenantContext, { required: true }).slug),
+    );
+
+    app.add(routes("/me", me), org("/page", page));
+    const client = createTestClient(app.build());
+    expect(await (await client.request("/me")).json()).toEqual({ name: "ada" });
+    expect(await (await client.request("/orgs/acme/page")).text()).toBe("acme");
+
+    const check = () => {
+      // @ts-expect-error - TenantContext is added after this group
+      routes("/page", page);
+      // @ts-expect-error - the app has no global middleware
+      createApp().group("/public")("/me", me);
+    };
+    expect(check).toBeFunction();
+  });
+});
@@ -0,0 +1,180 @@
+import { describe, expect, test } from "bun:test";
+import {
+  cookieSecrets,
+  createRoute,
+  deleteCookie,
+  getCookie,
+  getEncryptedCookie,
+  getSignedCookie,
+  HttpError,
+  mergeRoutes,
+  setCookie,
+  setEncryptedCookie,
+  setSignedCookie,
+} from "../src";
+import { html } from "../src/html";
+import { jsx } from "../src/jsx";
+import { createTestClient } from "../src/testing";
+
+const SECRET = "a-very-long-secret-used-for-cookie-tests";
+const OLD_SECRET = "an-older-secret-still-accepted-for-reads";
+
+/**
+ * Set-Cookie headers of a response
+ */
+const setCookies = (res: Response) => res.headers.getSetCookie();
+
+/**
+ * Turns Set-Cookie headers into a Cookie request header
+ */
+const toCookieHeader = (headers: string[]) =>
+  headers.map((header) => header.split(";")[0]).join("; ");
+
+describe("cookies", () => {
+  test("reads request cookies and queues changes on the response", async () => {
+    const client = createTestClient(
+      createRoute("/", () => {
+        const visits = Number(getCookie("visits") ?? 0) + 1;
+        setCookie("visits", String(visits), { httpOnly: true, maxAge: 60 });
+        deleteCookie("legacy");
+        return new Response(`${getCookie("visits")} ${getCookie("legacy")}`);
+      }),
+    );
+
+    const res = await client.request("/", {
+      headers: { Cookie: "visits=2; legacy=1" },
+    });
+    expect(await res.text()).toBe("3 undefined");
+    expect(setCookies(res)).toEqual([
+      "visits=3; Path=/; Max-Age=60; HttpOnly; SameSite=Lax",
+      "legacy=; Path=/; Expires=Thu, 01 Jan 1970 00:00:00 GMT; SameSite=Lax",
+    ]);
+  });
+
+  test("applies cookies set by components and to error responses", async () => {
+    const Banner = () => {
+      setCookie("seen", "banner");
+      return "<p>banner</p>";
+    };
+    const Recommendations = async () => {
+      await Bun.sleep(5);
+      setCookie("recommended", "yes");
+      return jsx("p", { children: "for you" });
+    };
+
+    const client = createTestClient(
+      mergeRoutes(
+        createRoute("/", () =>
+          html(
+            jsx("main", { children: [Banner(), jsx(Recommendations, {})] }),
+          ).init({ status: 201 }),
+        ),
+        createRoute("/fail", () => {
+          setCookie("attempt", "1");
+          throw new HttpError(403);
+        }),
+      ),
+    );
+
+    const res = await client.request("/");
+    expect(res.status).toBe(201);
+    expect(await res.text()).toContain("for you");
+    expect(toCookieHeader(setCookies(res))).toBe(
+      "seen=banner; recommended=yes",
+    );
+
+    const failed = await client.request("/fail");
+    expect(failed.status).toBe(403);
+    expect(toCookieHeader(setCookies(failed))).toBe("attempt=1");
+  });
+
+  test("throws outside a request", () => {
+    expect(() => setCookie("a", "b")).toThrow(
+      "setCookie must be called while handling a request",
+    );
+  });
+});
+
+describe("signed cookies", () => {
+  const route = (secrets: string[]) =>
+    createRoute(
+      "/",
+      {
+        GET: () => new Response(getSignedCookie("uid") ?? "none"),
+        POST: () => {
+          setSignedCookie("uid", "42");
+          return new Response(null, { status: 204 });
+        },
+      },
+      cookieSecrets(secrets),
+    );
+
+  test("round-trips and rejects tampered values", async () => {
+    const client = createTestClient(route([SECRET]));
+    const cookie = toCookieHeader(
+      setCookies(await client.request("/", { method: "POST" })),
+    );
+    expect(cookie).toStartWith("uid=42.");
+
+    const read = (Cookie: string) =>
+      client.request("/", { headers: { Cookie } }).then((res) => res.text());
+    expect(await read(cookie)).toBe("42");
+    expect(await read(cookie.replace("uid=42.", "uid=43."))).toBe("none");
+    expect(await read("uid=42")).toBe("none");
+  });
+
+  test("accepts cookies signed with a rotated secret", async () => {
+    const cookie = toCookieHeader(
+      setCookies(
+        await createTestClient(route([OLD_SECRET])).request("/", {
+          method: "POST",
+        }),
+      ),
+    );
+    const read = (secrets: string[]) =>
+      createTestClient(route(secrets))
+        .request("/", { headers: { Cookie: cookie } })
+        .then((res) => res.text());
+
+    expect(await read([SECRET, OLD_SECRET])).toBe("42");
+    expect(await read([SECRET])).toBe("none");
+  });
+
+  test("requires secrets of a safe length", () => {
+    expect(() => cookieSecrets("short")).toThrow("at least 32 characters");
+    expect(() => getSignedCookie("uid")).toThrow(
+      "getSignedCookie requires cookie secrets",
+    );
+  });
+});
+
+describe("encrypted cookies", () => {
+  const client = createTestClient(
+    createRoute("/", {
+      GET: () =>
+        new Response(
+          getEncryptedCookie("prefs", { secrets: SECRET }) ?? "none",
+        ),
+      POST: () => {
+        setEncryptedCookie("prefs", '{"theme":"dark"}', {
+          secrets: [SECRET],
+          httpOnly: true,
+        });
+        return new Response(null, { status: 204 });
+      },
+    }),
+  );
+
+  test("hides the value and round-trips it", async () => {
+    const [header] = setCookies(await client.request("/", { method: "POST" }));
+    expect(header).toContain("HttpOnly");
+    expect(header).not.toContain("dark");
+
+    const cookie = toCookieHeader([header as string]);
+    const read = (Cookie: string) =>
+      client.request("/", { headers: { Cookie } }).then((res) => res.text());
+    expect(await read(cookie)).toBe('{"theme":"dark"}');
+
+    expect(await read(cookie.replace("prefs=", "prefs=x"))).toBe("none");
+  });
+});
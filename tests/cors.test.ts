@@ -0,0 +1,181 @@
+import { describe, expect, test } from "bun:test";
+import {
+  createApp,
+  createMiddleware,
+  createRoute,
+  createRouteGroup,
+  HttpError,
+  mergeRoutes,
+} from "../src";
+import { cors } from "../src/middleware/cors";
+import { createTestClient } from "../src/testing";
+
+const preflight = (origin: string, headers: Record<string, string> = {}) => ({
+  method: "OPTIONS",
+  headers: {
+    Origin: origin,
+    "Access-Control-Request-Method": "POST",
+    ...headers,
+  },
+});
+
+describe("cors", () => {
+  test("allows any origin by default", async () => {
+    const client = createTestClient(
+      createRoute("/", () => new Response("ok"), cors()),
+    );
+    const res = await client.request("/", {
+      headers: { Origin: "https://a.example" },
+    });
+
+    expect(res.headers.get("Access-Control-Allow-Origin")).toBe("*");
+    expect(res.headers.get("Vary")).toBeNull();
+  });
+
+  test("matches origins by string, regex and function", async () => {
+    const client = createTestClient(
+      createRoute(
+        "/",
+        () => new Response("ok"),
+        cors({
+          origin: [
+            "https://app.example",
+            /^https:\/\/[a-z]+\.preview\.example$/,
+            async (origin) => origin.endsWith(".partner.example"),
+          ],
+        }),
+      ),
+    );
+    const allowOrigin = async (origin: string) =>
+      (await client.request("/", { headers: { Origin: origin } })).headers.get(
+        "Access-Control-Allow-Origin",
+      );
+
+    expect(await allowOrigin("https://app.example")).toBe(
+      "https://app.example",
+    );
+    expect(await allowOrigin("https://pr.preview.example")).toBe(
+      "https://pr.preview.example",
+    );
+    expect(await allowOrigin("https://x.partner.example")).toBe(
+      "https://x.partner.example",
+    );
+    expect(await allowOrigin("https://evil.example")).toBeNull();
+
+    const res = await client.request("/", {
+      headers: { Origin: "https://evil.example" },
+    });
+    expect(res.headers.get("Vary")).toBe("Origin");
+    expect(await res.text()).toBe("ok");
+  });
+
+  test("echoes the origin with credentials and exposes headers", async () => {
+    const client = createTestClient(
+      createRoute(
+        "/",
+        () => new Response("ok", { headers: { Vary: "Accept" } }),
+        cors({ credentials: true, exposedHeaders: ["X-Request-Id"] }),
+      ),
+    );
+    const res = await client.request("/", {
+      headers: { Origin: "https://app.example" },
+    });
+
+    expect(res.headers.get("Access-Control-Allow-Origin")).toBe(
+      "https://app.example",
+    );
+    expect(res.headers.get("Access-Control-Allow-Credentials")).toBe("true");
+    expect(res.headers.get("Access-Control-Expose-Headers")).toBe(
+      "X-Request-Id",
+    );
+    expect(res.headers.get("Vary")).toBe("Accept, Origin");
+  });
+
+  test("answers preflight for single-handler and method-object routes", async () => {
+    const auth = createMiddleware(() => {
+      throw new HttpError(401);
+    });
+    const api = createRouteGroup("/api", [
+      cors({ origin: "https://app.example", maxAge: 600 }),
+      auth,
+    ]);
+    const client = createTestClient(
+      mergeRoutes(
+        api("/search", () => new Response("results")),
+        api("/users", { GET: () => Response.json([]) }),
+      ),
+    );
+
+    for (const path of ["/api/search", "/api/users"]) {
+      const res = await client.request(
+        path,
+        preflight("https://app.example", {
+          "Access-Control-Request-Headers": "content-type, x-token",
+        }),
+      );
+      expect(res.status).toBe(204);
+      expect(res.headers.get("Access-Control-Allow-Origin")).toBe(
+        "https://app.example",
+      );
+      expect(res.headers.get("Access-Control-Allow-Methods")).toContain("POST");
+      expect(res.headers.get("Access-Control-Allow-Headers")).toBe(
+        "content-type, x-token",
+      );
+      expect(res.headers.get("Access-Control-Max-Age")).toBe("600");
+      expect(res.headers.get("Vary")).toBe(
+        "Origin, Access-Control-Request-Headers",
+      );
+    }
+
+    const denied = await client.request(
+      "/api/users",
+      preflight("https://evil.example"),
+    );
+    expect(denied.status).toBe(204);
+    expect(denied.headers.get("Access-Control-Allow-Origin")).toBeNull();
+    expect(denied.headers.get("Access-Control-Allow-Methods")).toBeNull();
+  });
+
+  test("uses configured headers and keeps plain OPTIONS requests", async () => {
+    const client = createTestClient(
+      createRoute(
+        "/",
+        { GET: () => new Response("ok") },
+        cors({ allowedHeaders: ["Content-Type"], methods: ["GET"] }),
+      ),
+    );
+
+    const res = await client.request(
+      "/",
+      preflight("https://app.example", {
+        "Access-Control-Request-Headers": "x-anything",
+      }),
+    );
+    expect(res.headers.get("Access-Control-Allow-Headers")).toBe(
+      "Content-Type",
+    );
+    expect(res.headers.get("Access-Control-Allow-Methods")).toBe("GET");
+
+    const options = await client.request("/", { method: "OPTIONS" });
+    expect(options.headers.get("Allow")).toBe("GET, HEAD, OPTIONS");
+  });
+
+  test("adds headers to error and not-found responses app-wide", async () => {
+    const app = createApp({
+      middleware: [cors({ origin: "https://app.example" })],
+    }).add(
+      createRoute("/fail", () => {
+        throw new HttpError(500);
+      }),
+    );
+    const client = createTestClient(app.build());
+    const headers = { Origin: "https://app.example" };
+
+    for (const path of ["/fail", "/missing"]) {
+      const res = await client.request(path, { headers });
+      expect(res.headers.get("Access-Control-Allow-Origin")).toBe(
+        "https://app.example",
+      );
+    }
+  });
+});
@@ -0,0 +1,199 @@
+import { describe, expect, test } from "bun:test";
+import { createRoute } from "../src";
+import { html } from "../src/html";
+import { jsx } from "../src/jsx";
+import { type CsrfOptions, csrf, useCsrfToken } from "../src/middleware/csrf";
+import { session } from "../src/middleware/session";
+import { createTestClient } from "../src/testing";
+import { clientFor, type TestRoutes } from "./helpers";
+
+const Page = () =>
+  jsx("main", {
+    children: [
+      jsx("form", {
+        method: "POST",
+        action: "/comments",
+        children: jsx("textarea", { name: "body" }),
+      }),
+      jsx("form", { method: "get", action: "/search" }),
+      jsx("form", { method: "post", action: "https://other.example/collect" }),
+    ],
+  });
+
+/**
+ * Page with forms, posting back to itself
+ */
+const comments: TestRoutes = {
+  "/comments": {
+    GET: () => html(jsx(Page, {})),
+    POST: async (req) =>
+      new Response(`saved ${(await req.formData()).get("body")}`),
+  },
+};
+
+/**
+ * Token injected in the first form of a page
+ */
+const tokenOf = (page: string) =>
+  /<input type="hidden" name="_csrf" value="([^"]+)"/.exec(page)?.[1] ?? "";
+
+/**
+ * Cookie header sending back the cookies of a response
+ */
+const cookiesOf = (res: Response) =>
+  res.headers
+    .getSetCookie()
+    .map((header) => header.split(";")[0])
+    .join("; ");
+
+/**
+ * Form submission carrying a token
+ */
+const post = (token: string, Cookie: string, headers = {}) => ({
+  method: "POST",
+  headers: { Cookie, ...headers },
+  body: new URLSearchParams({ _csrf: token, body: "hi" }),
+});
+
+describe("csrf", () => {
+  test("injects the token into forms posting to the app", async () => {
+    const res = await clientFor(comments, [csrf()]).request("/comments");
+    const page = await res.text();
+    const token = tokenOf(page);
+
+    expect(token).toMatch(/^[\w-]{43}$/);
+    expect(page.match(/name="_csrf"/g)).toHaveLength(1);
+    expect(page).toContain(
+      `<form method="POST" action="/comments"><input type="hidden" name="_csrf" value="${token}" /><textarea name="body"></textarea></form>`,
+    );
+    expect(cookiesOf(res)).toBe(`csrf_token=${token}`);
+  });
+
+  test("accepts unsafe requests with the token and keeps the body readable", async () => {
+    const client = clientFor(comments, [csrf()]);
+    const page = await client.request("/comments");
+    const token = tokenOf(await page.text());
+
+    const res = await client.request("/comments", post(token, cookiesOf(page)));
+    expect(res.status).toBe(200);
+    expect(await res.text()).toBe("saved hi");
+
+    const fromHeader = await client.request("/comments", {
+      method: "POST",
+      headers: { Cookie: cookiesOf(page), "X-CSRF-Token": token },
+      body: new URLSearchParams({ body: "via header" }),
+    });
+    expect(await fromHeader.text()).toBe("saved via header");
+  });
+
+  test("rejects missing or wrong tokens", async () => {
+    const client = clientFor(comments, [csrf()]);
+    const page = await client.request("/comments");
+    const cookie = cookiesOf(page);
+
+    for (const token of ["", "x".repeat(43)]) {
+      const res = await client.request("/comments", post(token, cookie));
+      expect(res.status).toBe(403);
+      expect(await res.json()).toEqual({ error: "Invalid CSRF token" });
+    }
+
+    const noCookie = await client.request(
+      "/comments",
+      post(tokenOf(await page.text()), ""),
+    );
+    expect(noCookie.status).toBe(403);
+  });
+
+  test("rejects cross-origin requests unless trusted", async () => {
+    const client = clientFor(comments, [
+      csrf({ trustedOrigins: ["https://admin.example"] }),
+    ]);
+    const page = await client.request("/comments");
+    const token = tokenOf(await page.text());
+    const cookie = cookiesOf(page);
+
+    for (const headers of [
+      { "Sec-Fetch-Site": "cross-site" },
+      { Origin: "https://evil.example" },
+    ]) {
+      const res = await client.request(
+        "/comments",
+        post(token, cookie, headers),
+      );
+      expect(res.status).toBe(403);
+      expect(await res.json()).toEqual({
+        error: "Cross-origin request blocked",
+      });
+    }
+
+    const sameOrigin = await client.request(
+      "/comments",
+      post(token, cookie, {
+        Origin: "http://localhost",
+        "Sec-Fetch-Site": "same-origin",
+      }),
+    );
+    expect(sameOrigin.status).toBe(200);
+
+    const trusted = await client.request(
+      "/comments",
+      post(token, cookie, {
+        Origin: "https://admin.example",
+        "Sec-Fetch-Site": "cross-site",
+      }),
+    );
+    expect(trusted.status).toBe(200);
+  });
+
+  test("takes the public origin from a trusted proxy", async () => {
+    const proxied = {
+      Origin: "https://app.example",
+      "X-Forwarded-Proto": "https",
+      "X-Forwarded-Host": "app.example",
+    };
+    const statusFor = async (options: CsrfOptions) => {
+      const client = clientFor(comments, [csrf(options)]);
+      const page = await client.request("/comments");
+      const token = tokenOf(await page.text());
+      const res = await client.request(
+        "/comments",
+        post(token, cookiesOf(page), proxied),
+      );
+      return res.status;
+    };
+
+    // The request URL is the internal http://localhost
+    expect(await statusFor({})).toBe(403);
+    expect(await statusFor({ trustProxy: true })).toBe(200);
+    expect(await statusFor({ trustedOrigins: ["https://app.example"] })).toBe(
+      200,
+    );
+  });
+
+  test("keeps the token in the session in synchronizer mode", async () => {
+    const client = clientFor(comments, [
+      session(),
+      csrf({ mode: "synchronizer" }),
+    ]);
+    const page = await client.request("/comments");
+    const token = tokenOf(await page.text());
+    const cookie = cookiesOf(page);
+    expect(cookie).toStartWith("sid=");
+
+    const res = await client.request("/comments", post(token, cookie));
+    expect(await res.text()).toBe("saved hi");
+
+    const other = await client.request("/comments");
+    const otherCookie = cookiesOf(other);
+    const swapped = await client.request("/comments", post(token, otherCookie));
+    expect(swapped.status).toBe(403);
+  });
+
+  test("exposes the token to scripts", async () => {
+    const client = createTestClient(
+      createRoute("/", () => new Response(useCsrfToken()), csrf()),
+    );
+    const res = await client.request("/");
+    expect(cookiesOf(res)).toBe(`csrf_token=${await res.text()}`);
+  });
+});
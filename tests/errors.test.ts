@@ -0,0 +1,183 @@
+import { describe, expect, spyOn, test } from "bun:test";
+import {
+  applyMiddleware,
+  createMiddleware,
+  createRoute,
+  createRouteGroup,
+  HttpError,
+  mergeRoutes,
+  onError,
+} from "../src";
+import { createContext, setContext, useContext } from "../src/store";
+
+type Handler = (req: any, server: any) => Response | Promise<Response>;
+
+const makeRequest = (path = "/") =>
+  new Request(`http://localhost${path}`) as Bun.BunRequest;
+const mockServer = {} as Bun.Server<undefined>;
+
+describe("HttpError", () => {
+  test("carries status, message and headers", async () => {
+    const error = new HttpError(401, "Login required", {
+      headers: { "WWW-Authenticate": "Bearer" },
+    });
+
+    expect(error).toBeInstanceOf(Error);
+    expect(error.status).toBe(401);
+
+    const res = error.toResponse();
+    expect(res.status).toBe(401);
+    expect(res.headers.get("WWW-Authenticate")).toBe("Bearer");
+    expect(await res.json()).toEqual({ error: "Login required" });
+  });
+
+  test("uses the status text as default message", () => {
+    expect(new HttpError(404).message).toBe("Not Found");
+  });
+});
+
+describe("default error handling", () => {
+  test("thrown HttpError becomes its response", async () => {
+    const route = createRoute("/users/:id", () => {
+      throw new HttpError(404, "User not found");
+    });
+
+    const res = await (route["/users/:id"] as Handler)(
+      makeRequest(),
+      mockServer,
+    );
+    expect(res.status).toBe(404);
+    expect(await res.json()).toEqual({ error: "User not found" });
+  });
+
+  test("rejected promises become a 500", async () => {
+    const errorSpy = spyOn(console, "error").mockImplementation(() => {});
+    const route = createRoute(
+      "/boom",
+      async () => {
+        throw new Error("boom");
+      },
+      createMiddleware((_req, _server, next) => next()),
+    );
+
+    const res = await (route["/boom"] as Handler)(makeRequest(), mockServer);
+    expect(res.status).toBe(500);
+    expect(await res.json()).toEqual({ error: "Internal Server Error" });
+    expect(errorSpy).toHaveBeenCalled();
+    errorSpy.mockRestore();
+  });
+
+  test("errors thrown by middleware are handled", async () => {
+    const route = createRoute(
+      "/",
+      () => new Response("OK"),
+      createMiddleware(() => {
+        throw new HttpError(403);
+      }),
+    );
+
+    const res = await (route["/"] as Handler)(makeRequest(), mockServer);
+    expect(res.status).toBe(403);
+  });
+});
+
+describe("onError", () => {
+  test("per route hook receives errors with the context scope active", async () => {
+    const UserContext = createContext<string, "user">("user");
+    let seenUser: string | undefined;
+
+    const route = createRoute(
+      "/me",
+      () => {
+        throw new Error("db down");
+      },
+      onError((error) => {
+        seenUser = useContext(UserContext);
+        return new Response((error as Error).message, { status: 503 });
+      }),
+      createMiddleware((_req, _server, next) => {
+        setContext(UserContext, "ada");
+        return next();
+      }),
+    );
+
+    const res = await (route["/me"] as Handler)(makeRequest(), mockServer);
+    expect(res.status).toBe(503);
+    expect(await res.text()).toBe("db down");
+    expect(seenUser).toBe("ada");
+  });
+
+  test("group hook handles errors of every route in the group", async () => {
+    const api = createRouteGroup("/api", [
+      onError(() => Response.json({ error: "api" }, { status: 500 })),
+    ]);
+    const routes = mergeRoutes(
+      api("/a", () => {
+        throw new Error("a");
+      }),
+      api("/b", {
+        POST: async () => {
+          throw new Error("b");
+        },
+      }),
+    );
+
+    const a = await (routes["/api/a"] as Handler)(makeRequest(), mockServer);
+    const b = await (routes["/api/b"] as any).POST(makeRequest(), mockServer);
+    expect(await a.json()).toEqual({ error: "api" });
+    expect(await b.json()).toEqual({ error: "api" });
+  });
+
+  test("app-wide hook sees errors and context from inner routes", async () => {
+    const RequestIdContext = createContext<string, "request-id">("request-id");
+    const logged: string[] = [];
+
+    const routes = applyMiddleware(
+      mergeRoutes(
+        createRoute(
+          "/fail",
+          () => {
+            throw new HttpError(418);
+          },
+          createMiddleware((_req, _server, next) => {
+            setContext(RequestIdContext, "req-1");
+            return next();
+          }),
+        ),
+      ),
+      onError((error) => {
+        logged.push(`${useContext(RequestIdContext)}:${error}`);
+        return (error as HttpError).toResponse();
+      }),
+    );
+
+    const res = await (routes["/fail"] as Handler)(makeRequest(), mockServer);
+    expect(res.status).toBe(418);
+    expect(logged).toEqual(["req-1:HttpError: Error"]);
+  });
+
+  test("inner hooks run before outer hooks", async () => {
+    const order: string[] = [];
+    const route = createRoute(
+      "/",
+      () => {
+        throw new Error("inner");
+      },
+      onError((error) => {
+        order.push("outer");
+        throw error;
+      }),
+      onError((error) => {
+        order.push("inner");
+        throw error;
+      }),
+    );
+
+    const errorSpy = spyOn(console, "error").mockImplementation(() => {});
+    const res = await (route["/"] as Handler)(makeRequest(), mockServer);
+    errorSpy.mockRestore();
+
+    expect(order).toEqual(["inner", "outer"]);
+    expect(res.status).toBe(500);
+  });
+});
@@ -0,0 +1,242 @@
+import { describe, expect, test } from "bun:test";
+import {
+  createApp,
+  createRoute,
+  createRouteGroup,
+  mergeRoutes,
+  sse,
+} from "../src";
+import { html } from "../src/html";
+import { jsx } from "../src/jsx";
+import { compress } from "../src/middleware/compress";
+import { checkPreconditions, createETag, etag } from "../src/middleware/etag";
+import { createTestClient } from "../src/testing";
+import { clientFor, type TestRoutes } from "./helpers";
+
+const post = { id: 1, title: "Hello" };
+const updated = "Tue, 01 Sep 2026 10:00:00 GMT";
+
+/**
+ * Cacheable responses, from JSON to rendered pages and streams
+ */
+const cached: TestRoutes = {
+  "/cached/post": {
+    GET: () => Response.json(post),
+    PUT: (req) => {
+      checkPreconditions(req, { etag: createETag(JSON.stringify(post)) });
+      return Response.json(post);
+    },
+  },
+  "/cached/page": () => {
+    const Title = async () => jsx("h1", { children: post.title });
+    return html(jsx("main", { children: jsx(Title, {}) }));
+  },
+  "/cached/dated": () =>
+    new Response("dated", {
+      headers: { "Last-Modified": updated, "Set-Cookie": "seen=1" },
+    }),
+  "/cached/missing": () => new Response("nope", { status: 404 }),
+  "/cached/stream": (req) => {
+    const chunk = new Uint8Array(1024);
+    const { searchParams } = new URL(req.url);
+    const slow = searchParams.has("slow");
+    const stream = new ReadableStream({
+      async start(controller) {
+        for (let i = 0; i < 4; i++) {
+          if (slow) await Bun.sleep(5);
+          controller.enqueue(chunk);
+        }
+        controller.close();
+      },
+    });
+    const sized = searchParams.has("sized");
+    return new Response(stream, {
+      headers: sized ? { "Content-Length": "4096" } : {},
+    });
+  },
+  "/cached/html": () =>
+    new Response("<h1>Hello</h1>", {
+      headers: { "Content-Type": "text/html" },
+    }),
+};
+
+describe("etag", () => {
+  test("adds a strong ETag and answers If-None-Match with 304", async () => {
+    const client = clientFor(cached, [etag()]);
+    const res = await client.request("/cached/post");
+    const tag = res.headers.get("ETag") as string;
+
+    expect(tag).toBe(createETag(JSON.stringify(post)));
+    expect(tag).toMatch(/^"[\da-f]+-[\da-f]+"$/);
+    expect(await res.json()).toEqual(post);
+
+    for (const header of [tag, `W/${tag}`, `"other", ${tag}`, "*"]) {
+      const cached = await client.request("/cached/post", {
+        headers: { "If-None-Match": header },
+      });
+      expect(cached.status).toBe(304);
+      expect(cached.headers.get("ETag")).toBe(tag);
+      expect(cached.headers.has("Content-Type")).toBe(false);
+      expect(await cached.text()).toBe("");
+    }
+
+    const changed = await client.request("/cached/post", {
+      headers: { "If-None-Match": '"other"' },
+    });
+    expect(changed.status).toBe(200);
+  });
+
+  test("sends weak ETags when asked", async () => {
+    const res = await clientFor(cached, [etag({ weak: true })]).request(
+      "/cached/post",
+    );
+    expect(res.headers.get("ETag")).toStartWith('W/"');
+  });
+
+  test("is scoped to the routes it is attached to", async () => {
+    const group = createRouteGroup("/cached", [etag()]);
+    const client = createTestClient(
+      mergeRoutes(
+        group("/post", () => Response.json(post)),
+        createRoute("/plain", () => Response.json(post)),
+      ),
+    );
+    expect((await client.request("/cached/post")).headers.has("ETag")).toBe(
+      true,
+    );
+    expect((await client.request("/plain")).headers.has("ETag")).toBe(false);
+  });
+
+  test("leaves failed responses alone", async () => {
+    const missing = await clientFor(cached, [etag()]).request(
+      "/cached/missing",
+    );
+    expect(missing.headers.has("ETag")).toBe(false);
+  });
+
+  test("answers If-Modified-Since from Last-Modified", async () => {
+    const client = clientFor(cached, [etag()]);
+    const since = (date: string) =>
+      client.request("/cached/dated", {
+        headers: { "If-Modified-Since": date },
+      });
+
+    const unchanged = await since(updated);
+    expect(unchanged.status).toBe(304);
+    expect(unchanged.headers.get("Last-Modified")).toBe(updated);
+    expect(unchanged.headers.getSetCookie()).toEqual(["seen=1"]);
+    expect((await since("Tue, 01 Sep 2026 09:59:59 GMT")).status).toBe(200);
+
+    // If-None-Match takes precedence
+    const res = await client.request("/cached/dated", {
+      headers: { "If-None-Match": '"other"', "If-Modified-Since": updated },
+    });
+    expect(res.status).toBe(200);
+  });
+
+  test("answers a failed If-Match with 412", async () => {
+    const client = clientFor(cached, [etag()]);
+    const tag = createETag(JSON.stringify(post));
+    const ifMatch = (method: string, header: string) =>
+      client.request("/cached/post", {
+        method,
+        headers: { "If-Match": header },
+      });
+
+    expect((await ifMatch("GET", tag)).status).toBe(200);
+    expect((await ifMatch("GET", "*")).status).toBe(200);
+    const failed = await ifMatch("GET", '"stale"');
+    expect(failed.status).toBe(412);
+    expect(await failed.json()).toEqual({ error: "Precondition Failed" });
+    // Weak tags never match If-Match
+    expect((await ifMatch("GET", `W/${tag}`)).status).toBe(412);
+
+    // Unsafe methods check before the change, in the handler
+    expect((await ifMatch("PUT", tag)).status).toBe(200);
+    expect((await ifMatch("PUT", '"stale"')).status).toBe(412);
+  });
+
+  test("hashes rendered html() responses", async () => {
+    const client = clientFor(cached, [etag()]);
+    const res = await client.request("/cached/page");
+    const body = await res.text();
+
+    expect(body).toBe("<main><h1>Hello</h1></main>");
+    expect(res.headers.get("ETag")).toBe(createETag(body));
+    expect(res.headers.get("Content-Type")).toBe("text/html; charset=utf-8");
+  });
+
+  test("hashes buffered bodies without a Content-Length", async () => {
+    const client = clientFor(cached, [etag()]);
+    const res = await client.request("/cached/html");
+
+    expect(res.headers.get("ETag")).toBe(createETag("<h1>Hello</h1>"));
+    expect(res.headers.get("Content-Type")).toBe("text/html");
+    expect(await res.text()).toBe("<h1>Hello</h1>");
+  });
+
+  test("hashes streams only when they are buffered", async () => {
+    const client = clientFor(cached, [etag()]);
+    const sized = await client.request("/cached/stream?sized");
+    expect(sized.headers.has("ETag")).toBe(true);
+    expect((await sized.arrayBuffer()).byteLength).toBe(4096);
+
+    const closed = await client.request("/cached/stream");
+    expect(closed.headers.has("ETag")).toBe(true);
+    expect((await closed.arrayBuffer()).byteLength).toBe(4096);
+
+    const slow = await client.request("/cached/stream?slow");
+    expect(slow.headers.has("ETag")).toBe(false);
+    expect((await slow.arrayBuffer()).byteLength).toBe(4096);
+
+    const large = clientFor(cached, [etag({ maxSize: 2048 })]);
+    for (const path of ["/cached/stream?sized", "/cached/stream"]) {
+      const res = await large.request(path);
+      expect(res.headers.has("ETag")).toBe(false);
+      expect((await res.arrayBuffer()).byteLength).toBe(4096);
+    }
+  });
+
+  test("keeps server-sent events streaming", async () => {
+    const app = createApp({ middleware: [etag()] }).add(
+      createRoute("/events", (req) =>
+        sse(req, (stream) => stream.send("ready", "now"), { heartbeat: false }),
+      ),
+    );
+    const res = await createTestClient(app.build()).request("/events");
+    const reader = (res.body as ReadableStream<Uint8Array>).getReader();
+
+    const first = await Promise.race([
+      reader.read().then(({ value }) => new TextDecoder().decode(value)),
+      Bun.sleep(500).then(() => "timed out"),
+    ]);
+    expect(first).toBe("event: ready\ndata: now\n\n");
+    expect(res.headers.has("ETag")).toBe(false);
+    await reader.cancel();
+  });
+
+  test("hashes the uncompressed body, inside or outside compress", async () => {
+    const text = "abret ".repeat(500);
+    const tag = createETag(text);
+    const handler = () =>
+      new Response(text, { headers: { "Content-Type": "text/plain" } });
+
+    for (const middleware of [
+      [compress(), etag()],
+      [etag(), compress()],
+    ]) {
+      const client = createTestClient(createRoute("/", handler, ...middleware));
+      const res = await client.request("/", {
+        headers: { "Accept-Encoding": "gzip" },
+      });
+      expect(res.headers.get("Content-Encoding")).toBe("gzip");
+      expect(res.headers.get("ETag")).toBe(`W/${tag}`);
+      expect(Bun.gunzipSync(await res.bytes()).length).toBe(text.length);
+
+      const cached = await client.request("/", {
+        headers: { "Accept-Encoding": "gzip", "If-None-Match": `W/${tag}` },
+      });
+      expect(cached.status).toBe(304);
+    }
+  });
+});
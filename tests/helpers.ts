@@ -0,0 +1,31 @@
+// Fixtures shared by the middleware tests
+
+import {
+  createRoute,
+  type Middleware,
+  mergeRoutes,
+  type RouteDefinition,
+} from "../src";
+import { createTestClient, type TestClientOptions } from "../src/testing";
+
+/**
+ * Routes by path, as passed to clientFor
+ */
+export type TestRoutes = Record<`/${string}`, RouteDefinition>;
+
+/**
+ * Test client for routes sharing the middleware under test, outermost first
+ */
+export const clientFor = (
+  routes: TestRoutes,
+  middleware: Middleware[],
+  options?: TestClientOptions,
+) =>
+  createTestClient(
+    mergeRoutes(
+      ...Object.entries(routes).map(([path, value]) =>
+        createRoute(path as `/${string}`, value, ...middleware),
+      ),
+    ),
+    options,
+  );
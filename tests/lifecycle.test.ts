@@ -0,0 +1,170 @@
+import { describe, expect, test } from "bun:test";
+import {
+  after,
+  createApp,
+  createContext,
+  createMiddleware,
+  createRoute,
+  HttpError,
+  onHookError,
+  onResponse,
+  useContext,
+} from "../src";
+import { setContext } from "../src/store";
+import { createTestClient } from "../src/testing";
+
+const UserContext = createContext<string, "user">("user");
+
+const auth = createMiddleware((_req, _server, next) => {
+  setContext(UserContext, "ada");
+  return next();
+});
+
+describe("onResponse", () => {
+  test("modifies the final response in registration order", async () => {
+    const order: string[] = [];
+    const route = createRoute(
+      "/",
+      () => {
+        onResponse((res) => {
+          order.push("handler");
+          res.headers.set("X-Handler", "1");
+        });
+        return new Response("ok");
+      },
+      (_req, _server, next) => {
+        onResponse(() => {
+          order.push("middleware");
+        });
+        return next();
+      },
+    );
+
+    const res = await createTestClient(route).request("/");
+    expect(res.headers.get("X-Handler")).toBe("1");
+    expect(order).toEqual(["middleware", "handler"]);
+  });
+
+  test("can replace the response and applies to error responses", async () => {
+    const route = createRoute("/", async () => {
+      onResponse(
+        (res) => new Response(`wrapped ${res.status}`, { status: res.status }),
+      );
+      throw new HttpError(404);
+    });
+
+    const res = await createTestClient(route).request("/");
+    expect(res.status).toBe(404);
+    expect(await res.text()).toBe("wrapped 404");
+  });
+
+  test("runs once when app-wide middleware wraps the route", async () => {
+    let runs = 0;
+    const app = createApp({ middleware: [auth] }).add(
+      createRoute(
+        "/",
+        () => {
+          onResponse(() => {
+            runs++;
+          });
+          return new Response("ok");
+        },
+        auth,
+      ),
+    );
+
+    await createTestClient(app.build()).request("/");
+    expect(runs).toBe(1);
+  });
+
+  test("throws outside of a request", () => {
+    expect(() => onResponse(() => {})).toThrow(
+      "onResponse must be called while handling a request",
+    );
+  });
+});
+
+describe("after", () => {
+  test("runs after the response with the request's contexts", async () => {
+    const done = Promise.withResolvers<string>();
+    let responded = false;
+    const route = createRoute(
+      "/",
+      () => {
+        after((res) => {
+          expect(responded).toBe(true);
+          done.resolve(`${useContext(UserContext)} ${res.status}`);
+        });
+        return new Response(null, { status: 204 });
+      },
+      auth,
+    );
+
+    await createTestClient(route).request("/");
+    responded = true;
+    expect(await done.promise).toBe("ada 204");
+  });
+
+  test("runs right away when registered after the response", async () => {
+    const done = Promise.withResolvers<string | undefined>();
+    const route = createRoute(
+      "/",
+      () => {
+        setTimeout(() => after(() => done.resolve(useContext(UserContext))), 5);
+        return new Response("ok");
+      },
+      auth,
+    );
+
+    await createTestClient(route).request("/");
+    expect(await done.promise).toBe("ada");
+  });
+});
+
+describe("hook errors", () => {
+  test("go to the app's onHookError with the request's contexts", async () => {
+    const reported = Promise.withResolvers<string[]>();
+    const errors: string[] = [];
+
+    const app = createApp({
+      middleware: [auth],
+      onHookError: (error, req) => {
+        errors.push(
+          `${(error as Error).message} ${new URL(req.url).pathname} ${useContext(UserContext)}`,
+        );
+        if (errors.length === 2) reported.resolve(errors);
+      },
+    }).add(
+      createRoute("/", () => {
+        onResponse(() => {
+          throw new Error("header");
+        });
+        after(async () => {
+          throw new Error("audit");
+        });
+        return new Response("still served");
+      }),
+    );
+
+    const res = await createTestClient(app.build()).request("/");
+    expect(await res.text()).toBe("still served");
+    expect(await reported.promise).toEqual(["header / ada", "audit / ada"]);
+  });
+
+  test("can be configured per route with the middleware", async () => {
+    const reported = Promise.withResolvers<unknown>();
+    const route = createRoute(
+      "/",
+      () => {
+        after(() => {
+          throw new Error("late");
+        });
+        return new Response("ok");
+      },
+      onHookError((error) => reported.resolve(error)),
+    );
+
+    await createTestClient(route).request("/");
+    expect(await reported.promise).toBeInstanceOf(Error);
+  });
+});
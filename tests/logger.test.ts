@@ -0,0 +1,174 @@
+import { afterAll, describe, expect, test } from "bun:test";
+import { mkdtempSync, readFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { createApp, createRoute, HttpError, useContext } from "../src";
+import { html } from "../src/html";
+import {
+  createLogger,
+  fileSink,
+  LoggerContext,
+  type LogRecord,
+  logger,
+  RequestIdContext,
+  requestId,
+} from "../src/middleware/logger";
+import { createTestClient } from "../src/testing";
+
+const tmp = mkdtempSync(path.join(tmpdir(), "abret-logger-"));
+afterAll(() => rmSync(tmp, { recursive: true, force: true }));
+
+/**
+ * Sink collecting records in memory
+ */
+const memorySink = () => {
+  const records: LogRecord[] = [];
+  return { records, sink: (record: LogRecord) => records.push(record) };
+};
+
+describe("requestId", () => {
+  const route = createRoute(
+    "/",
+    () => new Response(useContext(RequestIdContext)),
+    requestId({ generate: () => "generated" }),
+  );
+
+  test("reuses a valid incoming ID and echoes it", async () => {
+    const res = await createTestClient(route).request("/", {
+      headers: { "X-Request-Id": "abc-123" },
+    });
+    expect(await res.text()).toBe("abc-123");
+    expect(res.headers.get("X-Request-Id")).toBe("abc-123");
+  });
+
+  test("generates an ID for missing or invalid ones", async () => {
+    const client = createTestClient(route);
+    expect(await (await client.request("/")).text()).toBe("generated");
+
+    const res = await client.request("/", {
+      headers: { "X-Request-Id": "<script>" },
+    });
+    expect(res.headers.get("X-Request-Id")).toBe("generated");
+  });
+
+  test("echoes the ID on error responses", async () => {
+    const failing = createRoute(
+      "/",
+      () => {
+        throw new HttpError(403);
+      },
+      requestId({ header: "X-Trace", trustIncoming: false }),
+    );
+    const res = await createTestClient(failing).request("/", {
+      headers: { "X-Trace": "client" },
+    });
+    expect(res.status).toBe(403);
+    expect(res.headers.get("X-Trace")).not.toBe("client");
+    expect(res.headers.get("X-Trace")).toHaveLength(36);
+  });
+});
+
+describe("logger", () => {
+  test("stamps lines from handlers and components with the request", async () => {
+    const { records, sink } = memorySink();
+    const Greeting = () => {
+      useContext(LoggerContext).info("rendering", { component: "Greeting" });
+      return "<p>hi</p>";
+    };
+
+    const app = createApp({
+      middleware: [
+        requestId(),
+        logger({ sinks: [sink], fields: { app: "test" } }),
+      ],
+    }).add(
+      createRoute("/users/:id", () => {
+        useContext(LoggerContext).debug("hidden below info");
+        return html(`${Greeting()}`);
+      }),
+    );
+
+    await createTestClient(app.build()).request("/users/7", {
+      headers: { "X-Request-Id": "req-1" },
+    });
+
+    expect(records.map((record) => record.msg)).toEqual([
+      "rendering",
+      "request completed",
+    ]);
+    for (const record of records) {
+      expect(record).toMatchObject({
+        level: "info",
+        app: "test",
+        requestId: "req-1",
+        method: "GET",
+        path: "/users/7",
+      });
+      expect(record.elapsed).toBeNumber();
+      expect(Date.parse(record.time)).not.toBeNaN();
+    }
+    expect(records[0]?.component).toBe("Greeting");
+    expect(records[1]?.status).toBe(200);
+  });
+
+  test("logs the status of error responses", async () => {
+    const { records, sink } = memorySink();
+    const route = createRoute(
+      "/",
+      () => {
+        throw new HttpError(404);
+      },
+      logger({ sinks: [sink] }),
+    );
+
+    await createTestClient(route).request("/");
+    expect(records).toHaveLength(1);
+    expect(records[0]?.status).toBe(404);
+    expect(records[0]?.requestId).toBeUndefined();
+  });
+});
+
+describe("createLogger", () => {
+  test("filters levels and adds child fields", () => {
+    const { records, sink } = memorySink();
+    const log = createLogger({ level: "warn", sinks: [sink] });
+
+    log.info("ignored");
+    log.child({ job: "sync" }).error("failed", { error: new Error("boom") });
+
+    expect(records).toHaveLength(1);
+    expect(records[0]).toMatchObject({ level: "error", job: "sync" });
+  });
+
+  test("writes JSON lines to a file", () => {
+    const file = path.join(tmp, "app.log");
+    const sink = fileSink(file);
+    const log = createLogger({ sinks: [sink] });
+
+    log.info("first");
+    log.error("second", { error: new Error("boom") });
+    sink.close();
+
+    const lines = readFileSync(file, "utf8").trim().split("\n");
+    expect(lines.map((line) => JSON.parse(line).msg)).toEqual([
+      "first",
+      "second",
+    ]);
+    expect(JSON.parse(lines[1] as string).error.message).toBe("boom");
+  });
+
+  test("keeps logging when a sink fails", () => {
+    const { records, sink } = memorySink();
+    const failing = () => {
+      throw new Error("disk full");
+    };
+    const original = console.error;
+    console.error = () => {};
+    try {
+      createLogger({ sinks: [failing, sink] }).info("still here");
+    } finally {
+      console.error = original;
+    }
+    expect(records).toHaveLength(1);
+  });
+});
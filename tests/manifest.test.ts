@@ -0,0 +1,129 @@
+import { describe, expect, test } from "bun:test";
+import {
+  createApp,
+  createMiddleware,
+  createRoute,
+  createRouteGroup,
+  describeRoute,
+  formatRoutes,
+  listRoutes,
+  mergeRoutes,
+  printRoutes,
+} from "../src";
+
+const auth = createMiddleware((_req, _server, next) => next(), {
+  name: "auth",
+});
+const audit = createMiddleware((_req, _server, next) => next(), {
+  name: "audit",
+});
+
+const api = createRouteGroup("/api", [auth]);
+const admin = api.group("/admin", [audit]);
+
+const routes = mergeRoutes(
+  createRoute("/", () => new Response("Home")),
+  describeRoute(
+    api("/users", { GET: () => Response.json([]), POST: () => new Response() }),
+    "List and create users",
+  ),
+  admin("/stats", () => Response.json({})),
+);
+
+describe("listRoutes", () => {
+  test("lists path, methods, middleware, group and description", () => {
+    const infos = listRoutes(routes);
+
+    expect(infos.map(({ source: _, ...info }) => info)).toEqual([
+      {
+        path: "/",
+        methods: ["ALL"],
+        middleware: [],
+        group: undefined,
+        description: undefined,
+      },
+      {
+        path: "/api/users",
+        methods: ["GET", "POST"],
+        middleware: ["auth"],
+        group: "/api",
+        description: "List and create users",
+      },
+      {
+        path: "/api/admin/stats",
+        methods: ["ALL"],
+        middleware: ["auth", "audit"],
+        group: "/api/admin",
+        description: undefined,
+      },
+    ]);
+  });
+
+  test("records where each route was defined", () => {
+    for (const info of listRoutes(routes)) {
+      expect(info.source).toMatch(/manifest\.test\.ts:\d+:\d+$/);
+    }
+  });
+
+  test("includes global middleware from createApp", () => {
+    const app = createApp({
+      middleware: [
+        createMiddleware((_req, _server, next) => next(), { name: "logger" }),
+      ],
+    }).add(routes);
+
+    const info = listRoutes(app.build().routes).find(
+      (route) => route.path === "/api/users",
+    );
+    expect(info?.middleware).toEqual(["logger", "auth"]);
+    expect(info?.methods).toEqual(["GET", "POST"]);
+  });
+
+  test("keeps metadata of combined method objects", () => {
+    const merged = mergeRoutes(
+      api("/posts", { GET: () => new Response() }),
+      api("/posts", { DELETE: () => new Response() }),
+    );
+
+    const [info] = listRoutes(merged);
+    expect(info?.methods).toEqual(["GET", "DELETE"]);
+    expect(info?.group).toBe("/api");
+  });
+
+  test("falls back for hand-written routes", () => {
+    const infos = listRoutes({
+      "/raw": { GET: () => new Response() },
+      "/static": new Response("static"),
+    });
+
+    expect(infos.map((info) => info.methods)).toEqual([["GET"], ["ALL"]]);
+  });
+
+  test("names unnamed middleware anonymous", () => {
+    const route = createRoute(
+      "/",
+      () => new Response(),
+      (_req, _server, next) => next(),
+    );
+    expect(listRoutes(route)[0]?.middleware).toEqual(["anonymous"]);
+  });
+});
+
+describe("formatRoutes", () => {
+  test("prints an aligned table", () => {
+    expect(formatRoutes(routes)).toBe(
+      [
+        "METHODS    PATH              GROUP       MIDDLEWARE   DESCRIPTION",
+        "ALL        /",
+        "GET, POST  /api/users        /api        auth         List and create users",
+        "ALL        /api/admin/stats  /api/admin  auth, audit",
+      ].join("\n"),
+    );
+  });
+
+  test("printRoutes writes the table", () => {
+    const lines: string[] = [];
+    printRoutes(routes, (text) => lines.push(text));
+    expect(lines).toEqual([formatRoutes(routes)]);
+  });
+});
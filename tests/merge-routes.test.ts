@@ -0,0 +1,106 @@
+import { describe, expect, test } from "bun:test";
+import {
+  createMiddleware,
+  createRoute,
+  createRouteGroup,
+  mergeRoutes,
+  overrideRoutes,
+} from "../src";
+
+const call = (routes: Record<string, any>, path: string, method: string) =>
+  routes[path][method](
+    new Request(`http://localhost${path}`, { method }),
+    {} as Bun.Server<undefined>,
+  ) as Promise<Response>;
+
+describe("mergeRoutes conflict detection", () => {
+  test("throws when two handlers share a path, naming both definitions", () => {
+    const admin = createRouteGroup("/admin");
+
+    let message = "";
+    try {
+      mergeRoutes(
+        admin("", () => new Response("admin page")),
+        createRoute("/admin", () => new Response("other page")),
+      );
+    } catch (error) {
+      message = (error as Error).message;
+    }
+
+    expect(message).toStartWith('Route conflict: "/admin" is defined twice');
+    // Both definitions point to this file
+    expect(message.match(/merge-routes\.test\.ts:\d+:\d+/g)).toHaveLength(2);
+    expect(message).toContain("overrideRoutes()");
+  });
+
+  test("combines method objects method-by-method", async () => {
+    const routes = mergeRoutes(
+      createRoute("/users", { GET: () => new Response("list") }),
+      createRoute("/users", {
+        POST: () => new Response("created", { status: 201 }),
+      }),
+    );
+
+    expect(await (await call(routes, "/users", "GET")).text()).toBe("list");
+    expect((await call(routes, "/users", "POST")).status).toBe(201);
+
+    // Implicit methods reflect the combined definition
+    const res = await call(routes, "/users", "DELETE");
+    expect(res.status).toBe(405);
+    expect(res.headers.get("Allow")).toBe("GET, HEAD, POST, OPTIONS");
+    expect((await call(routes, "/users", "HEAD")).status).toBe(200);
+  });
+
+  test("combined methods keep their own middleware", async () => {
+    const order: string[] = [];
+    const track = (name: string) =>
+      createMiddleware((_req, _server, next) => {
+        order.push(name);
+        return next();
+      });
+
+    const routes = mergeRoutes(
+      createRoute("/posts", { GET: () => new Response() }, track("public")),
+      createRoute("/posts", { POST: () => new Response() }, track("auth")),
+    );
+
+    await call(routes, "/posts", "GET");
+    await call(routes, "/posts", "POST");
+    expect(order).toEqual(["public", "auth"]);
+  });
+
+  test("throws for a duplicate method", () => {
+    expect(() =>
+      mergeRoutes(
+        createRoute("/users", {
+          GET: () => new Response(),
+          POST: () => new Response(),
+        }),
+        createRoute("/users", { POST: () => new Response() }),
+      ),
+    ).toThrow('Route conflict: POST "/users" is defined twice');
+  });
+
+  test("throws when a handler meets a method object", () => {
+    expect(() =>
+      mergeRoutes(
+        createRoute("/users", { GET: () => new Response() }),
+        createRoute("/users", () => new Response()),
+      ),
+    ).toThrow('Route conflict: "/users" is defined twice');
+  });
+
+  test("merging the same route object twice is not a conflict", () => {
+    const home = createRoute("/", () => new Response("home"));
+    expect(Object.keys(mergeRoutes(home, home))).toEqual(["/"]);
+  });
+
+  test("overrideRoutes replaces intentionally", async () => {
+    const routes = mergeRoutes(
+      createRoute("/admin", { GET: () => new Response("old") }),
+      overrideRoutes(createRoute("/admin", { GET: () => new Response("new") })),
+    );
+
+    expect(await (await call(routes, "/admin", "GET")).text()).toBe("new");
+  });
+});
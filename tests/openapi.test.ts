@@ -0,0 +1,302 @@
+import { describe, expect, test } from "bun:test";
+import {
+  createRoute,
+  createRouteGroup,
+  describeRoute,
+  mergeRoutes,
+  type StandardSchemaV1,
+  validate,
+  withValidation,
+} from "../src";
+import { bodyParser } from "../src/middleware/body";
+import {
+  createOpenAPIRoutes,
+  generateOpenAPI,
+  toOpenAPIPath,
+  toYAML,
+} from "../src/openapi";
+import { createTestClient } from "../src/testing";
+
+// Minimal Standard Schema exposing its JSON Schema like common libraries do
+const schema = (jsonSchema: Record<string, unknown>): StandardSchemaV1 => ({
+  "~standard": {
+    version: 1,
+    vendor: "test",
+    validate: (value) => ({ value }),
+    jsonSchema: { input: () => jsonSchema },
+  } as StandardSchemaV1["~standard"],
+});
+
+const UserParams = schema({
+  type: "object",
+  properties: { id: { type: "integer" } },
+  required: ["id"],
+});
+
+const ListQuery = schema({
+  type: "object",
+  properties: { page: { type: "integer" }, q: { type: "string" } },
+  required: ["q"],
+});
+
+const CreateUser = schema({
+  type: "object",
+  properties: { name: { type: "string" } },
+  required: ["name"],
+});
+
+const api = createRouteGroup("/api");
+
+const routes = mergeRoutes(
+  createRoute("/", () => new Response("Home")),
+  describeRoute(
+    api("/users", {
+      GET: {
+        handler: () => Response.json([]),
+        middleware: [validate({ query: ListQuery })],
+      },
+      POST: withValidation({ body: CreateUser }, () => new Response()),
+    }),
+    "List and create users",
+  ),
+  createRoute(
+    "/api/users/:id",
+    () => Response.json({}),
+    validate({ params: UserParams }),
+  ),
+  createRoute("/files/*", () => new Response()),
+);
+
+describe("generateOpenAPI", () => {
+  test("converts path templates", () => {
+    expect(toOpenAPIPath("/users/:id/posts/:postId")).toBe(
+      "/users/{id}/posts/{postId}",
+    );
+    expect(toOpenAPIPath("/files/*")).toBe("/files/{wildcard}");
+  });
+
+  test("emits paths, methods, summaries and tags", () => {
+    const doc = generateOpenAPI(routes, {
+      info: { title: "Users", version: "2.0.0" },
+    });
+
+    expect(doc.openapi).toBe("3.1.0");
+    expect(doc.info).toEqual({ title: "Users", version: "2.0.0" });
+    expect(Object.keys(doc.paths)).toEqual([
+      "/",
+      "/api/users",
+      "/api/users/{id}",
+      "/files/{wildcard}",
+    ]);
+    expect(Object.keys(doc.paths["/api/users"] ?? {})).toEqual(["get", "post"]);
+    // Single-handler routes answer every method
+    expect(Object.keys(doc.paths["/"] ?? {})).toEqual([
+      "get",
+      "post",
+      "put",
+      "patch",
+      "delete",
+      "head",
+      "options",
+    ]);
+
+    const list = doc.paths["/api/users"]?.get;
+    expect(list?.summary).toBe("List and create users");
+    expect(list?.tags).toEqual(["api"]);
+    expect(list?.operationId).toBe("getApiUsers");
+    expect(doc.tags).toEqual([{ name: "api" }]);
+  });
+
+  test("describes parameters and bodies from attached schemas", () => {
+    const doc = generateOpenAPI(routes);
+
+    expect(doc.paths["/api/users/{id}"]?.get?.parameters).toEqual([
+      { name: "id", in: "path", required: true, schema: { type: "integer" } },
+    ]);
+    expect(doc.paths["/api/users"]?.get?.parameters).toEqual([
+      {
+        name: "page",
+        in: "query",
+        required: false,
+        schema: { type: "integer" },
+      },
+      { name: "q", in: "query", required: true, schema: { type: "string" } },
+    ]);
+    expect(doc.paths["/api/users"]?.post?.requestBody).toEqual({
+      required: true,
+      content: {
+        "application/json": {
+          schema: {
+            type: "object",
+            properties: { name: { type: "string" } },
+            required: ["name"],
+          },
+        },
+      },
+    });
+    expect(Object.keys(doc.paths["/api/users"]?.post?.responses ?? {})).toEqual(
+      ["200", "400"],
+    );
+
+    // Routes without schemas still document their path parameters
+    expect(doc.paths["/files/{wildcard}"]?.get?.parameters).toEqual([
+      {
+        name: "wildcard",
+        in: "path",
+        required: true,
+        schema: { type: "string" },
+      },
+    ]);
+    expect(Object.keys(doc.paths["/"]?.get?.responses ?? {})).toEqual(["200"]);
+  });
+
+  test("documents bodies in the formats the route accepts", () => {
+    const doc = generateOpenAPI(
+      mergeRoutes(
+        createRoute(
+          "/avatars",
+          { PUT: () => new Response(null, { status: 204 }) },
+          bodyParser({ types: ["multipart"] }),
+          validate({ body: CreateUser }),
+        ),
+        createRoute(
+          "/login",
+          () => new Response(),
+          validate({ body: CreateUser, bodyTypes: ["urlencoded", "json"] }),
+        ),
+      ),
+    );
+
+    expect(
+      Object.keys(doc.paths["/avatars"]?.put?.requestBody?.content ?? {}),
+    ).toEqual(["multipart/form-data"]);
+
+    const login = doc.paths["/login"];
+    expect(Object.keys(login?.post?.requestBody?.content ?? {})).toEqual([
+      "application/x-www-form-urlencoded",
+      "application/json",
+    ]);
+    // Requests of bodiless methods document no body
+    expect(login?.get?.requestBody).toBeUndefined();
+    expect(login?.head?.requestBody).toBeUndefined();
+  });
+
+  test("documents the response schema", () => {
+    const doc = generateOpenAPI(
+      createRoute(
+        "/me",
+        () => Response.json({ name: "Ada" }),
+        validate({ response: CreateUser }),
+      ),
+    );
+
+    expect(doc.paths["/me"]?.get?.responses).toEqual({
+      "200": {
+        description: "Successful response",
+        content: {
+          "application/json": {
+            schema: {
+              type: "object",
+              properties: { name: { type: "string" } },
+              required: ["name"],
+            },
+          },
+        },
+      },
+    });
+  });
+
+  test("filters routes and uses a custom converter", () => {
+    const doc = generateOpenAPI(routes, {
+      include: (route) => route.path.startsWith("/api"),
+      toJSONSchema: (s) =>
+        s === CreateUser ? { title: "CreateUser" } : undefined,
+    });
+
+    expect(Object.keys(doc.paths)).toEqual(["/api/users", "/api/users/{id}"]);
+    expect(
+      doc.paths["/api/users"]?.post?.requestBody?.content["application/json"]
+        ?.schema,
+    ).toEqual({ title: "CreateUser" });
+  });
+
+  test("serializes to YAML", () => {
+    const yaml = toYAML(generateOpenAPI(routes));
+
+    expect(yaml).toContain("openapi: 3.1.0");
+    expect(Bun.YAML.parse(yaml)).toEqual(
+      JSON.parse(JSON.stringify(generateOpenAPI(routes))),
+    );
+  });
+});
+
+describe("createOpenAPIRoutes", () => {
+  const call = (docRoutes: Record<string, any>, path: string) =>
+    docRoutes[path].GET(new Request(`http://localhost${path}`)) as Response;
+
+  test("serves JSON, YAML and a viewer page", async () => {
+    const docRoutes = createOpenAPIRoutes(routes, {
+      info: { title: "Users <API>", version: "1.0.0" },
+    });
+
+    expect(Object.keys(docRoutes)).toEqual([
+      "/openapi.json",
+      "/openapi.yaml",
+      "/docs",
+    ]);
+
+    const json = await call(docRoutes, "/openapi.json").json();
+    expect(Object.keys(json.paths)).toContain("/api/users/{id}");
+
+    const yaml = call(docRoutes, "/openapi.yaml");
+    expect(yaml.headers.get("Content-Type")).toStartWith("application/yaml");
+    expect(await yaml.text()).toContain('"/api/users/{id}":');
+
+    const page = call(docRoutes, "/docs");
+    expect(page.headers.get("Content-Type")).toStartWith("text/html");
+    const body = await page.text();
+    expect(body).toContain('data-url="/openapi.json"');
+    expect(body).toContain("<title>Users &lt;API&gt;</title>");
+  });
+
+  test("answers HEAD, OPTIONS and other methods like other routes", async () => {
+    const client = createTestClient(createOpenAPIRoutes(routes));
+
+    const head = await client.request("/openapi.json", { method: "HEAD" });
+    expect(head.status).toBe(200);
+    expect(await head.text()).toBe("");
+
+    const options = await client.request("/docs", { method: "OPTIONS" });
+    expect(options.headers.get("Allow")).toContain("GET");
+
+    const post = await client.request("/openapi.yaml", { method: "POST" });
+    expect(post.status).toBe(405);
+  });
+
+  test("loads the viewer assets from the given URLs", async () => {
+    const docRoutes = createOpenAPIRoutes(routes, {
+      viewerAssets: { script: "/assets/swagger-ui-bundle.js" },
+    });
+    const body = await call(docRoutes, "/docs").text();
+
+    expect(body).toContain('<script src="/assets/swagger-ui-bundle.js"');
+    expect(body).toContain(
+      'href="https://unpkg.com/swagger-ui-dist@5/swagger-ui.css"',
+    );
+  });
+
+  test("documents lazily provided routes without itself", async () => {
+    let all: Record<string, any> = {};
+    const docRoutes = createOpenAPIRoutes(() => all, {
+      jsonPath: "/spec.json",
+      yamlPath: false,
+      docsPath: false,
+    });
+    all = mergeRoutes(routes, docRoutes);
+
+    expect(Object.keys(docRoutes)).toEqual(["/spec.json"]);
+    const json = await call(docRoutes, "/spec.json").json();
+    expect(Object.keys(json.paths)).not.toContain("/spec.json");
+    expect(Object.keys(json.paths)).toContain("/api/users");
+  });
+});
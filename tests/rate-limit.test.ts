@@ -0,0 +1,196 @@
+import { afterEach, describe, expect, setSystemTime, test } from "bun:test";
+import {
+  memoryStore,
+  RateLimitContext,
+  type RateLimitOptions,
+  rateLimit,
+  sqliteStore,
+} from "../src/middleware/rate-limit";
+import { useContext } from "../src/store";
+import type { TestClient } from "../src/testing";
+import { clientFor, type TestRoutes } from "./helpers";
+
+// Start of a minute, so windows line up with the test's clock
+const START = new Date("2026-01-01T00:00:00Z").getTime();
+
+/**
+ * Moves the clock to `seconds` after START
+ */
+const at = (seconds: number) => setSystemTime(START + seconds * 1000);
+
+afterEach(() => setSystemTime());
+
+/**
+ * Route echoing the remaining requests
+ */
+const remaining: TestRoutes = {
+  "/": () => new Response(String(useContext(RateLimitContext)?.remaining)),
+};
+
+/**
+ * Statuses of `count` requests
+ */
+const statuses = async (client: TestClient, count: number) => {
+  const result: number[] = [];
+  for (let i = 0; i < count; i++) {
+    result.push((await client.request("/")).status);
+  }
+  return result;
+};
+
+describe("rateLimit", () => {
+  test("fixed window limits per window and sends the headers", async () => {
+    at(10);
+    const client = clientFor(remaining, [
+      rateLimit({
+        limit: 2,
+        window: 60,
+        algorithm: "fixed-window",
+      }),
+    ]);
+
+    const first = await client.request("/");
+    expect(await first.text()).toBe("1");
+    expect(first.headers.get("RateLimit-Limit")).toBe("2");
+    expect(first.headers.get("RateLimit-Remaining")).toBe("1");
+    expect(first.headers.get("RateLimit-Reset")).toBe("50");
+    expect(first.headers.get("RateLimit-Policy")).toBe("2;w=60");
+    expect(first.headers.get("Retry-After")).toBeNull();
+
+    await client.request("/");
+    const limited = await client.request("/");
+    expect(limited.status).toBe(429);
+    expect(await limited.json()).toEqual({ error: "Too Many Requests" });
+    expect(limited.headers.get("RateLimit-Remaining")).toBe("0");
+    expect(limited.headers.get("Retry-After")).toBe("50");
+
+    at(60);
+    expect(await statuses(client, 3)).toEqual([200, 200, 429]);
+  });
+
+  test("sliding window weighs the previous window", async () => {
+    const client = clientFor(remaining, [rateLimit({ limit: 2, window: 60 })]);
+
+    at(50);
+    expect(await statuses(client, 2)).toEqual([200, 200]);
+
+    // Right after the boundary, the previous window still counts fully
+    at(61);
+    const limited = await client.request("/");
+    expect(limited.status).toBe(429);
+    expect(limited.headers.get("Retry-After")).toBe("29");
+
+    // Half way through, it counts for one request
+    at(90);
+    expect(await statuses(client, 2)).toEqual([200, 429]);
+  });
+
+  test("token bucket allows bursts and refills evenly", async () => {
+    at(0);
+    const client = clientFor(remaining, [
+      rateLimit({
+        limit: 3,
+        window: 30,
+        algorithm: "token-bucket",
+      }),
+    ]);
+
+    expect(await statuses(client, 4)).toEqual([200, 200, 200, 429]);
+    const limited = await client.request("/");
+    expect(limited.headers.get("Retry-After")).toBe("10");
+
+    at(10);
+    expect(await statuses(client, 2)).toEqual([200, 429]);
+  });
+
+  test("limits each key separately and skips undefined keys", async () => {
+    at(0);
+    const store = memoryStore();
+    const options: RateLimitOptions = {
+      limit: 1,
+      store,
+      key: (req) =>
+        req.headers.get("X-Api-Key") ??
+        (req.headers.has("X-Internal") ? undefined : "anonymous"),
+    };
+    const client = clientFor(remaining, [rateLimit(options)]);
+    const request = (headers: Record<string, string>) =>
+      client.request("/", { headers }).then((res) => res.status);
+
+    expect(await request({ "X-Api-Key": "a" })).toBe(200);
+    expect(await request({ "X-Api-Key": "b" })).toBe(200);
+    expect(await request({ "X-Api-Key": "a" })).toBe(429);
+
+    const internal = await client.request("/", {
+      headers: { "X-Internal": "1" },
+    });
+    expect(internal.status).toBe(200);
+    expect(internal.headers.get("RateLimit-Limit")).toBeNull();
+
+    // The default key is the client's IP
+    const byIP = (ip: string) =>
+      statuses(
+        clientFor(remaining, [rateLimit({ limit: 1, store: memoryStore() })], {
+          ip,
+        }),
+        2,
+      );
+    expect(await byIP("10.0.0.2")).toEqual([200, 429]);
+  });
+
+  test("uses a custom response for limited requests", async () => {
+    at(0);
+    const client = clientFor(remaining, [
+      rateLimit({
+        limit: 1,
+        algorithm: "fixed-window",
+        onLimit: (info) =>
+          Response.json(
+            { error: "slow_down", retryAfter: info.retryAfter },
+            { status: 429 },
+          ),
+      }),
+    ]);
+
+    await client.request("/");
+    const res = await client.request("/");
+    expect(await res.json()).toEqual({ error: "slow_down", retryAfter: 60 });
+    expect(res.headers.get("Retry-After")).toBe("60");
+    expect(res.headers.get("RateLimit-Remaining")).toBe("0");
+  });
+
+  test("rejects invalid limits", () => {
+    expect(() => rateLimit({ limit: 0 })).toThrow("positive integer");
+    expect(() => rateLimit({ limit: 1, window: 0 })).toThrow("positive");
+  });
+});
+
+describe("sqliteStore", () => {
+  test("shares counters between limiters using the same database", async () => {
+    at(0);
+    const store = sqliteStore();
+    const options: RateLimitOptions = {
+      limit: 2,
+      algorithm: "fixed-window",
+      store,
+    };
+
+    expect(
+      await statuses(clientFor(remaining, [rateLimit(options)]), 1),
+    ).toEqual([200]);
+    expect(
+      await statuses(clientFor(remaining, [rateLimit(options)]), 2),
+    ).toEqual([200, 429]);
+    expect(
+      await statuses(
+        clientFor(remaining, [rateLimit({ ...options, prefix: "other:" })]),
+        1,
+      ),
+    ).toEqual([200]);
+
+    await store.reset("fixed-window:127.0.0.1");
+    expect(
+      await statuses(clientFor(remaining, [rateLimit(options)]), 1),
+    ).toEqual([200]);
+  });
+});
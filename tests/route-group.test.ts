@@ -1,5 +1,10 @@
 import { describe, expect, test } from "bun:test";
-import { createMiddleware, createRouteGroup, mergeRoutes } from "../src";
+import {
+  createMiddleware,
+  createRouteGroup,
+  mergeRoutes,
+  overrideRoutes,
+} from "../src";
 
 describe("createRouteGroup", () => {
   test("creates routes with prefix", () => {
@@ -123,19 +128,88 @@ describe("createRouteGroup", () => {
       "/api/users",
     );
 
-    // Merging overlapping normalized routes
+    // Overlapping normalized routes are a conflict
+    expect(() =>
+      mergeRoutes(
+        rootGroup("/", () => new Response("first")),
+        rootGroup("", () => new Response("second")),
+      ),
+    ).toThrow('Route conflict: "/" is defined twice');
+
+    // Merging overlapping normalized routes with an explicit override
     const merged = mergeRoutes(
       rootGroup("/", () => new Response("last-win-secondary")),
-      rootGroup("", () => new Response("last-win-primary")),
+      overrideRoutes(rootGroup("", () => new Response("last-win-primary"))),
     );
 
     // Only one "/" key should exist
     expect(Object.keys(merged)).toHaveLength(1);
     expect(merged).toHaveProperty("/");
 
-    // The last one should win (Object.assign behavior)
+    // The overriding one should win
     const handler = merged["/"] as any;
     const res = await handler({} as any, {} as any);
     expect(await res.text()).toBe("last-win-primary");
   });
 });
+
+describe("nested route groups", () => {
+  test("joins prefixes", () => {
+    const api = createRouteGroup("/api");
+    const v1 = api.group("/v1/");
+    const admin = v1.group("//admin");
+
+    expect(api.prefix).toBe("/api");
+    expect(v1.prefix).toBe("/api/v1");
+    expect(admin.prefix).toBe("/api/v1/admin");
+
+    const route = admin("/users/:id", () => new Response());
+    expect(route).toHaveProperty("/api/v1/admin/users/:id");
+
+    // Path literal typing is kept through nesting
+    const key: keyof typeof route = "/api/v1/admin/users/:id";
+    // @ts-expect-error the prefix is part of the key type
+    const wrongKey: keyof typeof route = "/users/:id";
+    expect(typeof route[key]).toBe("function");
+    expect(route).not.toHaveProperty(wrongKey);
+    expect(admin("", () => new Response())).toHaveProperty("/api/v1/admin");
+  });
+
+  test("stacks middleware in parent-to-child order", async () => {
+    const order: string[] = [];
+    const track = (name: string) =>
+      createMiddleware((_req, _server, next) => {
+        order.push(name);
+        return next();
+      });
+
+    const api = createRouteGroup("/api", [track("api")]);
+    const v1 = api.group("/v1", [track("v1")]);
+    const admin = v1.group("/admin", [track("admin-1"), track("admin-2")]);
+
+    const route = admin("/stats", () => {
+      order.push("handler");
+      return new Response("OK");
+    });
+
+    await (route["/api/v1/admin/stats"] as any)({} as any, {} as any);
+    expect(order).toEqual(["api", "v1", "admin-1", "admin-2", "handler"]);
+
+    // Parent groups are not affected by their children
+    order.length = 0;
+    const parentRoute = api("/ping", () => {
+      order.push("handler");
+      return new Response("pong");
+    });
+    await (parentRoute["/api/ping"] as any)({} as any, {} as any);
+    expect(order).toEqual(["api", "handler"]);
+  });
+
+  test("child groups of the root group", () => {
+    const root = createRouteGroup("/");
+    const docs = root.group("/docs");
+
+    expect(docs("/intro", () => new Response())).toHaveProperty("/docs/intro");
+    expect(root("/", () => new Response())).toHaveProperty("/");
+  });
+});
@@ -1,8 +1,10 @@
 import { describe, expect, test } from "bun:test";
 import {
   composeMiddlewares,
+  createApp,
   createMiddleware,
   createRoute,
+  forMethods,
   mergeRoutes,
 } from "../src";
 import {
@@ -35,6 +37,59 @@ describe("createRoute", () => {
   });
 });
 
+describe("static files", () => {
+  const file = Bun.file(import.meta.path);
+  // Bun serves files in method objects, though its types only list responses
+  const fileEntry = file as unknown as Response;
+  const request = new Request("http://localhost/file");
+  const server = {} as Bun.Server<undefined>;
+  const tagged = createMiddleware(async (_req, _server, next) => {
+    const res = await next();
+    res.headers.set("X-Tagged", "1");
+    return res;
+  });
+
+  test("are left to Bun without middleware", () => {
+    expect(createRoute("/file", file)["/file"]).toBe(file);
+    const methods = createRoute("/file", { GET: fileEntry })["/file"];
+    expect((methods as Record<string, unknown>).GET).toBe(file);
+
+    const { routes } = createApp().add(createRoute("/file", file)).build();
+    expect(routes["/file"]).toBe(file);
+  });
+
+  test("are served through middleware", async () => {
+    const handler = createRoute("/file", file, tagged)["/file"] as (
+      req: Request,
+      server: Bun.Server<undefined>,
+    ) => Promise<Response>;
+
+    const res = await handler(request, server);
+    expect(res.headers.get("X-Tagged")).toBe("1");
+    expect(await res.text()).toBe(await file.text());
+  });
+
+  test("work as method entries", async () => {
+    const route = createRoute("/file", {
+      GET: { handler: fileEntry, middleware: [tagged] },
+    });
+    const methods = route["/file"] as Record<string, any>;
+
+    const res: Response = await methods.GET(request, server);
+    expect(res.headers.get("X-Tagged")).toBe("1");
+    expect(await res.text()).toBe(await file.text());
+
+    const head = createRoute("/file", { GET: fileEntry })["/file"] as Record<
+      string,
+      any
+    >;
+    const headRes: Response = await head.HEAD(request, server);
+    expect(headRes.status).toBe(200);
+    // Bun leaves the body out, sending its length
+    expect((await headRes.blob()).size).toBe(file.size);
+  });
+});
+
 describe("createMiddleware", () => {
   test("creates middleware function", () => {
     const middleware = createMiddleware((_req, _server, next) => {
@@ -193,6 +248,256 @@ describe("middleware integration", () => {
   });
 });
 
+describe("per-method middleware", () => {
+  const track = (order: string[], name: string) =>
+    createMiddleware((_req, _server, next) => {
+      order.push(name);
+      return next();
+    });
+
+  const call = (route: Record<string, any>, path: string, method: string) =>
+    route[path][method](
+      new Request(`http://localhost${path}`, { method }),
+      {} as Bun.Server<undefined>,
+    ) as Promise<Response>;
+
+  test("method entries can carry their own middleware", async () => {
+    const order: string[] = [];
+
+    const route = createRoute(
+      "/posts",
+      {
+        GET: () => {
+          order.push("get");
+          return new Response("list");
+        },
+        POST: {
+          handler: () => {
+            order.push("post");
+            return new Response("created", { status: 201 });
+          },
+          middleware: [track(order, "csrf"), track(order, "auth")],
+        },
+        DELETE: {
+          handler: new Response(null, { status: 204 }),
+          middleware: [track(order, "auth")],
+        },
+      },
+      track(order, "route"),
+    );
+
+    await call(route, "/posts", "GET");
+    expect(order).toEqual(["route", "get"]);
+
+    order.length = 0;
+    const res = await call(route, "/posts", "POST");
+    expect(res.status).toBe(201);
+    expect(order).toEqual(["route", "csrf", "auth", "post"]);
+
+    order.length = 0;
+    expect((await call(route, "/posts", "DELETE")).status).toBe(204);
+    expect((await call(route, "/posts", "DELETE")).status).toBe(204);
+    expect(order).toEqual(["route", "auth", "route", "auth"]);
+  });
+
+  test("method middleware can short-circuit", async () => {
+    const route = createRoute("/admin", {
+      GET: () => new Response("public"),
+      PUT: {
+        handler: () => new Response("should not reach"),
+        middleware: [
+          createMiddleware(() => new Response("No", { status: 403 })),
+        ],
+      },
+    });
+
+    expect(await (await call(route, "/admin", "GET")).text()).toBe("public");
+    expect((await call(route, "/admin", "PUT")).status).toBe(403);
+  });
+
+  test("forMethods only runs middleware for matching methods", async () => {
+    const order: string[] = [];
+
+    const route = createRoute(
+      "/items",
+      {
+        GET: () => new Response("get"),
+        POST: () => new Response("post"),
+        DELETE: () => new Response("delete"),
+      },
+      track(order, "route"),
+      forMethods(
+        ["POST", "DELETE"],
+        track(order, "csrf"),
+        track(order, "auth"),
+      ),
+    );
+
+    await call(route, "/items", "GET");
+    expect(order).toEqual(["route"]);
+
+    order.length = 0;
+    await call(route, "/items", "DELETE");
+    expect(order).toEqual(["route", "csrf", "auth"]);
+  });
+});
+
+describe("implicit methods", () => {
+  const call = (route: Record<string, any>, path: string, method: string) =>
+    route[path][method](
+      new Request(`http://localhost${path}`, { method }),
+      {} as Bun.Server<undefined>,
+    ) as Promise<Response>;
+
+  test("unlisted methods get a 405 with an Allow header", async () => {
+    const route = createRoute("/users", {
+      GET: () => Response.json([]),
+      POST: () => new Response("created", { status: 201 }),
+    });
+
+    const res = await call(route, "/users", "DELETE");
+    expect(res.status).toBe(405);
+    expect(res.headers.get("Allow")).toBe("GET, HEAD, POST, OPTIONS");
+    expect(await res.json()).toEqual({ error: "Method Not Allowed" });
+  });
+
+  test("OPTIONS answers with the allowed methods", async () => {
+    const route = createRoute("/users", { POST: () => new Response() });
+
+    const res = await call(route, "/users", "OPTIONS");
+    expect(res.status).toBe(204);
+    expect(res.headers.get("Allow")).toBe("POST, OPTIONS");
+  });
+
+  test("HEAD is derived from GET", async () => {
+    const route = createRoute("/users", {
+      GET: () =>
+        Response.json([1, 2, 3], { headers: { "X-Total-Count": "3" } }),
+    });
+
+    const res = await call(route, "/users", "HEAD");
+    expect(res.status).toBe(200);
+    expect(res.headers.get("X-Total-Count")).toBe("3");
+    // The GET response is sent as is, Bun leaves its body out
+    expect(await res.json()).toEqual([1, 2, 3]);
+  });
+
+  test("explicit handlers are kept", async () => {
+    const route = createRoute("/users", {
+      GET: () => new Response("get"),
+      HEAD: () => new Response(null, { headers: { "X-Custom": "head" } }),
+      OPTIONS: () => new Response("custom options"),
+    });
+
+    expect((await call(route, "/users", "HEAD")).headers.get("X-Custom")).toBe(
+      "head",
+    );
+    expect(await (await call(route, "/users", "OPTIONS")).text()).toBe(
+      "custom options",
+    );
+  });
+
+  test("implicit handlers run through the middleware chain", async () => {
+    const seen: string[] = [];
+    const route = createRoute(
+      "/users",
+      { GET: () => new Response("get") },
+      createMiddleware((req, _server, next) => {
+        seen.push(req.method);
+        return next();
+      }),
+    );
+
+    await call(route, "/users", "PATCH");
+    await call(route, "/users", "OPTIONS");
+    await call(route, "/users", "HEAD");
+    expect(seen).toEqual(["PATCH", "OPTIONS", "HEAD"]);
+  });
+
+  test("works with a real server", async () => {
+    const server = Bun.serve({
+      port: 0,
+      routes: mergeRoutes(
+        createRoute("/items", { GET: () => new Response("items") }),
+      ),
+    });
+
+    try {
+      const res = await fetch(new URL("/items", server.url), {
+        method: "PUT",
+      });
+      expect(res.status).toBe(405);
+      expect(res.headers.get("Allow")).toBe("GET, HEAD, OPTIONS");
+
+      const head = await fetch(new URL("/items", server.url), {
+        method: "HEAD",
+      });
+      expect(head.status).toBe(200);
+    } finally {
+      server.stop();
+    }
+  });
+});
+
+describe("derived HEAD", () => {
+  test("sends the headers of GET, including its length", async () => {
+    const server = Bun.serve({
+      port: 0,
+      routes: mergeRoutes(
+        createRoute("/text", {
+          GET: () => new Response("hello", { headers: { "X-Route": "text" } }),
+        }),
+        createRoute("/json", { GET: () => Response.json({ ok: true }) }),
+        createRoute("/bytes", { GET: () => new Response(new Uint8Array(3)) }),
+        createRoute("/stream", {
+          GET: () =>
+            new Response(
+              new ReadableStream({
+                start(controller) {
+                  controller.enqueue(new Uint8Array(4));
+                  controller.close();
+                },
+              }),
+            ),
+        }),
+        // Bun serves files in method objects, its types leave them out
+        createRoute("/file", {
+          GET: Bun.file("package.json") as unknown as Response,
+        }),
+      ),
+    });
+
+    try {
+      for (const path of ["/text", "/json", "/bytes", "/file"]) {
+        const url = new URL(path, server.url);
+        const get = await fetch(url);
+        const head = await fetch(url, { method: "HEAD" });
+        await get.arrayBuffer();
+
+        expect(head.status).toBe(200);
+        expect(await head.text()).toBe("");
+        expect(head.headers.get("Content-Length")).toBe(
+          get.headers.get("Content-Length"),
+        );
+        expect(head.headers.get("X-Route")).toBe(get.headers.get("X-Route"));
+      }
+      const text = await fetch(new URL("/text", server.url), {
+        method: "HEAD",
+      });
+      expect(text.headers.get("Content-Length")).toBe("5");
+
+      // Streams aren't read for HEAD, their length stays unknown
+      const stream = await fetch(new URL("/stream", server.url), {
+        method: "HEAD",
+      });
+      expect(stream.status).toBe(200);
+      expect(stream.headers.get("Content-Length")).toBeNull();
+    } finally {
+      server.stop();
+    }
+  });
+});
+
 describe("composeMiddlewares", () => {
   test("composes multiple middlewares into one", async () => {
     const order: string[] = [];
@@ -329,13 +634,15 @@ describe("async middleware", () => {
 
 describe("Request Context System", () => {
   // Define context keys for testing
-  const UserContext = createContext<{ id: string; name: string }>("user");
-  const SessionContext = createContext<string>("session");
-  const CountContext = createContext<number>("count");
+  const UserContext = createContext<{ id: string; name: string }, "user">(
+    "user",
+  );
+  const SessionContext = createContext<string, "session">("session");
+  const CountContext = createContext<number, "count">("count");
 
   test("createContext creates unique symbols", () => {
-    const key1 = createContext<string>("test");
-    const key2 = createContext<string>("test");
+    const key1 = createContext<string, "test">("test");
+    const key2 = createContext<string, "test">("test");
     expect(key1).not.toBe(key2); // Same name, different symbols
     expect(typeof key1).toBe("symbol");
   });
@@ -462,7 +769,7 @@ describe("Request Context System", () => {
   });
 
   test("multiple middlewares can share context", async () => {
-    const RequestIdContext = createContext<string>("requestId");
+    const RequestIdContext = createContext<string, "requestId">("requestId");
 
     const requestIdMiddleware = createMiddleware((_req, _server, next) => {
       setContext(RequestIdContext, `req-${Date.now()}`);
@@ -0,0 +1,207 @@
+import { afterAll, describe, expect, test } from "bun:test";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import {
+  fileStore,
+  memoryStore,
+  type SessionStore,
+  session,
+  sqliteStore,
+  useSession,
+} from "../src/middleware/session";
+import { clientFor, type TestRoutes } from "./helpers";
+
+const tmp = mkdtempSync(path.join(tmpdir(), "abret-session-"));
+afterAll(() => rmSync(tmp, { recursive: true, force: true }));
+
+type AppSession = { userId: string; visits: number };
+
+/**
+ * Memory store recording the calls it receives
+ */
+const spyStore = () => {
+  const store = memoryStore();
+  const calls: string[] = [];
+  const spy: SessionStore = {
+    get: (id) => {
+      calls.push("get");
+      return store.get(id);
+    },
+    set: (id, record) => {
+      calls.push("set");
+      return store.set(id, record);
+    },
+    touch: (id, expiresAt) => {
+      calls.push("touch");
+      return store.touch(id, expiresAt);
+    },
+    delete: (id) => {
+      calls.push("delete");
+      return store.delete(id);
+    },
+  };
+  return { store: spy, calls };
+};
+
+/**
+ * Routes reading and changing the session
+ */
+const sessionRoutes: TestRoutes = {
+  "/none": () => Response.json("untouched"),
+  "/read": async () => Response.json(await useSession<AppSession>().all()),
+  "/visit": async () => {
+    const current = useSession<AppSession>();
+    await current.set("visits", ((await current.get("visits")) ?? 0) + 1);
+    return Response.json(current.id);
+  },
+  "/login": async () => {
+    const current = useSession<AppSession>();
+    await current.regenerate();
+    await current.set("userId", "ada");
+    return Response.json(current.id);
+  },
+  "/logout": async () => {
+    await useSession().destroy();
+    return Response.json(null);
+  },
+};
+
+/**
+ * Cookie header sending the session cookie of a response
+ */
+const sessionCookie = (res: Response) =>
+  res.headers
+    .getSetCookie()
+    .find((header) => header.startsWith("sid="))
+    ?.split(";")[0] ?? "";
+
+describe("session", () => {
+  test("doesn't touch the store or set a cookie when unused", async () => {
+    const { store, calls } = spyStore();
+    const res = await clientFor(sessionRoutes, [session({ store })]).request(
+      "/none",
+    );
+
+    expect(calls).toEqual([]);
+    expect(res.headers.getSetCookie()).toEqual([]);
+  });
+
+  test("saves changed sessions and reads them back", async () => {
+    const { store, calls } = spyStore();
+    const client = clientFor(sessionRoutes, [
+      session({ store, cookie: { secure: true } }),
+    ]);
+
+    const first = await client.request("/visit");
+    const cookie = sessionCookie(first);
+    const header = first.headers.getSetCookie()[0];
+    expect(cookie).toMatch(/^sid=[\w-]{43}$/);
+    expect(header).toContain("HttpOnly");
+    expect(header).toContain("Secure");
+    expect(calls).toEqual(["set"]);
+
+    await client.request("/visit", { headers: { Cookie: cookie } });
+    const read = await client.request("/read", { headers: { Cookie: cookie } });
+    expect(await read.json()).toEqual({ visits: 2 });
+    expect(calls).toEqual(["set", "get", "set", "get", "touch"]);
+  });
+
+  test("extends the expiry only when rolling", async () => {
+    const { store, calls } = spyStore();
+    const client = clientFor(sessionRoutes, [
+      session({ store, rolling: false, maxAge: 60 }),
+    ]);
+    const cookie = sessionCookie(await client.request("/visit"));
+
+    const read = await client.request("/read", { headers: { Cookie: cookie } });
+    expect(read.headers.getSetCookie()).toEqual([]);
+
+    const visit = await client.request("/visit", {
+      headers: { Cookie: cookie },
+    });
+    expect(visit.headers.getSetCookie()).toEqual([]);
+    expect(calls).toEqual(["set", "get", "get", "set"]);
+  });
+
+  test("regenerates the ID on login and keeps the data", async () => {
+    const { store, calls } = spyStore();
+    const client = clientFor(sessionRoutes, [session({ store })]);
+    const first = await client.request("/visit");
+    const oldId = await first.json();
+    const cookie = sessionCookie(first);
+
+    const login = await client.request("/login", {
+      headers: { Cookie: cookie },
+    });
+    const newId = await login.json();
+    expect(newId).not.toBe(oldId);
+    expect(calls.slice(-2)).toEqual(["delete", "set"]);
+
+    const stale = await client.request("/read", {
+      headers: { Cookie: cookie },
+    });
+    expect(await stale.json()).toEqual({});
+    const fresh = await client.request("/read", {
+      headers: { Cookie: sessionCookie(login) },
+    });
+    expect(await fresh.json()).toEqual({ visits: 1, userId: "ada" });
+  });
+
+  test("destroys the session and its cookie", async () => {
+    const client = clientFor(sessionRoutes, [
+      session({ store: memoryStore() }),
+    ]);
+    const cookie = sessionCookie(await client.request("/visit"));
+
+    const logout = await client.request("/logout", {
+      headers: { Cookie: cookie },
+    });
+    expect(logout.headers.getSetCookie()[0]).toContain(
+      "Expires=Thu, 01 Jan 1970",
+    );
+
+    const read = await client.request("/read", { headers: { Cookie: cookie } });
+    expect(await read.json()).toEqual({});
+  });
+
+  test("ignores malformed session cookies", async () => {
+    const { store, calls } = spyStore();
+    const res = await clientFor(sessionRoutes, [session({ store })]).request(
+      "/read",
+      {
+        headers: { Cookie: "sid=../../etc/passwd" },
+      },
+    );
+
+    expect(await res.json()).toEqual({});
+    expect(calls).toEqual([]);
+  });
+});
+
+describe.each([
+  ["memoryStore", () => memoryStore()],
+  ["fileStore", () => fileStore(mkdtempSync(path.join(tmp, "files-")))],
+  ["sqliteStore", () => sqliteStore()],
+])("%s", (_name, createStore) => {
+  test("stores, extends and deletes sessions", async () => {
+    const store = createStore();
+    const expiresAt = Date.now() + 60_000;
+
+    await store.set("a", { data: { n: 1 }, expiresAt });
+    expect(await store.get("a")).toEqual({ data: { n: 1 }, expiresAt });
+    expect(await store.get("missing")).toBeUndefined();
+
+    await store.touch("a", expiresAt + 1000);
+    expect((await store.get("a"))?.expiresAt).toBe(expiresAt + 1000);
+
+    await store.delete("a");
+    expect(await store.get("a")).toBeUndefined();
+  });
+
+  test("doesn't return expired sessions", async () => {
+    const store = createStore();
+    await store.set("old", { data: {}, expiresAt: Date.now() - 1 });
+    expect(await store.get("old")).toBeUndefined();
+  });
+});
@@ -0,0 +1,158 @@
+import { describe, expect, test } from "bun:test";
+import { createContext, createRoute, sse, useContext } from "../src";
+import { setContext } from "../src/store";
+import { createTestClient } from "../src/testing";
+
+const UserContext = createContext<string, "user">("user");
+
+/**
+ * Reads a stream until `count` events (blocks separated by a blank line) arrived
+ */
+const readEvents = async (res: Response, count: number) => {
+  const reader = (res.body as ReadableStream<Uint8Array>).getReader();
+  const decoder = new TextDecoder();
+  let text = "";
+  while (text.split("\n\n").length - 1 < count) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    text += decoder.decode(value, { stream: true });
+  }
+  reader.releaseLock();
+  return text.split("\n\n").slice(0, count);
+};
+
+describe("sse", () => {
+  test("streams typed events with ids, JSON and multi-line data", async () => {
+    type Events = { tick: { n: number }; note: string };
+
+    const res = sse<Events>(
+      new Request("http://localhost/events"),
+      (stream) => {
+        stream.send("tick", { n: 1 }, 1);
+        stream.send("note", "line one\nline two");
+        stream.close();
+      },
+      { heartbeat: false, retry: 3000 },
+    );
+
+    expect(res.headers.get("Content-Type")).toBe(
+      "text/event-stream; charset=utf-8",
+    );
+    expect(res.headers.get("Cache-Control")).toBe("no-cache");
+    expect(await res.text()).toBe(
+      [
+        "retry: 3000\n\n",
+        'id: 1\nevent: tick\ndata: {"n":1}\n\n',
+        "event: note\ndata: line one\ndata: line two\n\n",
+      ].join(""),
+    );
+  });
+
+  test("rejects events that are not declared", () => {
+    const check = () =>
+      sse<{ tick: number }>(new Request("http://localhost/"), (stream) => {
+        // @ts-expect-error - unknown event
+        stream.send("tock", 1);
+        // @ts-expect-error - wrong data type
+        stream.send("tick", "1");
+      });
+    expect(check).toBeFunction();
+  });
+
+  test("keeps the request's context scope in stream callbacks", async () => {
+    const route = createRoute(
+      "/events",
+      (req) =>
+        sse(
+          req,
+          (stream) => {
+            setTimeout(() => {
+              stream.send("message", `hello ${useContext(UserContext)}`);
+              stream.close();
+            }, 5);
+          },
+          { heartbeat: false },
+        ),
+      (_req, _server, next) => {
+        setContext(UserContext, "ada");
+        return next();
+      },
+    );
+
+    const res = await createTestClient(route).request("/events");
+    expect(await res.text()).toBe("data: hello ada\n\n");
+  });
+
+  test("exposes Last-Event-ID for resuming", async () => {
+    const res = sse(
+      new Request("http://localhost/", {
+        headers: { "Last-Event-ID": "41" },
+      }),
+      (stream) => {
+        stream.send("message", "next", Number(stream.lastEventId) + 1);
+        stream.close();
+      },
+      { heartbeat: false },
+    );
+
+    expect(await res.text()).toBe("id: 42\ndata: next\n\n");
+  });
+
+  test("sends heartbeats", async () => {
+    let stream: { close(): void } | undefined;
+    const res = sse(
+      new Request("http://localhost/"),
+      (s) => {
+        stream = s;
+      },
+      { heartbeat: 5 },
+    );
+
+    expect(await readEvents(res, 2)).toEqual([": heartbeat", ": heartbeat"]);
+    stream?.close();
+  });
+
+  test("cleans up when the client disconnects", async () => {
+    const controller = new AbortController();
+    const cleaned = Promise.withResolvers<string>();
+
+    const route = createRoute("/events", (req) =>
+      sse(
+        req,
+        (stream) => {
+          stream.onClose(() =>
+            cleaned.resolve(
+              `closed for ${useContext(UserContext)}, aborted: ${stream.signal.aborted}`,
+            ),
+          );
+        },
+        { heartbeat: false },
+      ),
+    );
+
+    await createTestClient(route, {
+      setup: () => setContext(UserContext, "ada"),
+    }).request("/events", { signal: controller.signal });
+    controller.abort();
+
+    expect(await cleaned.promise).toBe("closed for ada, aborted: true");
+  });
+
+  test("closes the stream when the handler throws", async () => {
+    const originalError = console.error;
+    console.error = () => {};
+    try {
+      const res = sse(
+        new Request("http://localhost/"),
+        async (stream) => {
+          stream.send("message", "before");
+          throw new Error("boom");
+        },
+        { heartbeat: false },
+      );
+      expect(await res.text()).toBe("data: before\n\n");
+    } finally {
+      console.error = originalError;
+    }
+  });
+});
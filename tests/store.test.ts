@@ -10,9 +10,9 @@ import {
 } from "../src/store";
 
 // Define test contexts
-const UserContext = createContext<{ id: string; name: string }>("user");
-const SessionContext = createContext<string>("session");
-const CounterContext = createContext<number>("counter");
+const UserContext = createContext<{ id: string; name: string }, "user">("user");
+const SessionContext = createContext<string, "session">("session");
+const CounterContext = createContext<number, "counter">("counter");
 
 // Context with default value
 const ThemeContext = createContext("theme", "light");
@@ -20,8 +20,8 @@ const ThemeContext = createContext("theme", "light");
 describe("abret/store", () => {
   describe("createContext", () => {
     test("creates unique context symbols", () => {
-      const Context1 = createContext<string>("test");
-      const Context2 = createContext<string>("test");
+      const Context1 = createContext<string, "test">("test");
+      const Context2 = createContext<string, "test">("test");
 
       // Same name but different symbols
       expect(Context1).not.toBe(Context2);
@@ -30,7 +30,7 @@ describe("abret/store", () => {
     });
 
     test("context has description", () => {
-      const TestContext = createContext<string>("myContext");
+      const TestContext = createContext<string, "myContext">("myContext");
       expect(TestContext.description).toBe("myContext");
     });
 
@@ -0,0 +1,234 @@
+import { describe, expect, test } from "bun:test";
+import {
+  createApp,
+  createContext,
+  createMiddleware,
+  createRoute,
+  createRouteGroup,
+  HttpError,
+  mergeRoutes,
+  onResponse,
+  setCookie,
+  useContext,
+} from "../src";
+import { requestId } from "../src/middleware/logger";
+import { setContext } from "../src/store";
+import {
+  createTestClient,
+  createTestServer,
+  matchRoute,
+  testMiddleware,
+} from "../src/testing";
+
+describe("matchRoute", () => {
+  const paths = ["/users/:id", "/users/me", "/users/*", "/*", "/files/:id/raw"];
+
+  test("prefers exact segments over params over wildcards", () => {
+    expect(matchRoute(paths, "/users/me")).toEqual({
+      path: "/users/me",
+      params: {},
+    });
+    expect(matchRoute(paths, "/users/42")).toEqual({
+      path: "/users/:id",
+      params: { id: "42" },
+    });
+    expect(matchRoute(paths, "/users/42/posts")?.path).toBe("/users/*");
+    expect(matchRoute(paths, "/about")?.path).toBe("/*");
+  });
+
+  test("decodes params and requires non-empty segments", () => {
+    expect(matchRoute(["/tags/:tag"], "/tags/a%20b")?.params).toEqual({
+      tag: "a b",
+    });
+    expect(matchRoute(["/tags/:tag"], "/tags/")).toBeUndefined();
+    expect(matchRoute(["/files/*"], "/files")).toBeUndefined();
+    expect(matchRoute(["/files/*"], "/files/")?.path).toBe("/files/*");
+  });
+
+  test("matches paths exactly, without trailing slash normalization", () => {
+    expect(matchRoute(["/about"], "/about/")).toBeUndefined();
+    expect(matchRoute(["/"], "/")?.path).toBe("/");
+  });
+});
+
+describe("createTestClient", () => {
+  const api = createRouteGroup("/api");
+  const routes = mergeRoutes(
+    createRoute("/", () => new Response("Home")),
+    createRoute("/static", new Response("static")),
+    api("/users/:id", (req) => Response.json({ id: req.params.id })),
+    api("/users", {
+      GET: () => Response.json([]),
+      POST: async (req) => Response.json(await req.json(), { status: 201 }),
+    }),
+    createRoute("/ip", (req, server) =>
+      Response.json(server.requestIP(req)?.address ?? null),
+    ),
+  );
+
+  test("dispatches to routes with params, methods and bodies", async () => {
+    const client = createTestClient(routes);
+
+    expect(await (await client.request("/")).text()).toBe("Home");
+    expect(await (await client.request("/api/users/7")).json()).toEqual({
+      id: "7",
+    });
+
+    const created = await client.request("/api/users", {
+      method: "POST",
+      body: JSON.stringify({ name: "Ada" }),
+    });
+    expect(created.status).toBe(201);
+    expect(await created.json()).toEqual({ name: "Ada" });
+
+    // Implicit methods of method objects still apply
+    expect((await client.request("/api/users", { method: "PUT" })).status).toBe(
+      405,
+    );
+  });
+
+  test("serves static responses more than once", async () => {
+    const client = createTestClient(routes);
+    for (let i = 0; i < 2; i++) {
+      expect(await (await client.request("/static")).text()).toBe("static");
+    }
+  });
+
+  test("leaves the body of HEAD responses out, like Bun", async () => {
+    const res = await createTestClient(routes).request("/api/users/7", {
+      method: "HEAD",
+    });
+    expect(res.status).toBe(200);
+    expect(await res.text()).toBe("");
+  });
+
+  test("answers 404 without an app, or uses the app's fallback", async () => {
+    expect((await createTestClient(routes).request("/missing")).status).toBe(
+      404,
+    );
+
+    const app = createApp({
+      notFound: (req) =>
+        new Response(`no ${new URL(req.url).pathname}`, { status: 404 }),
+    }).add(routes);
+    const res = await createTestClient(app.build()).request("/missing");
+    expect(await res.text()).toBe("no /missing");
+  });
+
+  test("stubs the server", async () => {
+    const client = createTestClient(routes, { ip: "10.0.0.1" });
+    expect(await (await client.request("/ip")).json()).toBe("10.0.0.1");
+
+    const socket = createTestClient<{ user: string }>({
+      "/ws": (req: Request, server: Bun.Server<{ user: string }>) => {
+        server.upgrade(req, { data: { user: "ada" } });
+      },
+    });
+    const res = await socket.request("/ws");
+    expect(res.status).toBe(101);
+    expect(socket.server.upgrades.map((upgrade) => upgrade.data)).toEqual([
+      { user: "ada" },
+    ]);
+  });
+
+  test("runs raw handlers inside a context scope with setup", async () => {
+    const TenantContext = createContext<string, "tenant">("tenant");
+    const client = createTestClient(
+      { "/": () => new Response(useContext(TenantContext)) },
+      { setup: () => setContext(TenantContext, "acme") },
+    );
+
+    expect(await (await client.request("/")).text()).toBe("acme");
+  });
+
+  test("rethrows errors of raw handlers, or passes them to the app", async () => {
+    const failing = {
+      "/": () => {
+        throw new Error("boom");
+      },
+    };
+    await expect(createTestClient(failing).request("/")).rejects.toThrow(
+      "boom",
+    );
+
+    const res = await createTestClient({
+      routes: failing,
+      fetch: () => new Response(null, { status: 404 }),
+      error: (error) => new Response(error.message, { status: 500 }),
+    }).request("/");
+    expect(await res.text()).toBe("boom");
+  });
+
+  test("fills cookies", async () => {
+    const client = createTestClient({
+      "/": (req: Bun.BunRequest<"/">) =>
+        new Response(req.cookies.get("theme") ?? ""),
+    });
+
+    const res = await client.request("/", {
+      headers: { Cookie: "theme=dark" },
+    });
+    expect(await res.text()).toBe("dark");
+  });
+});
+
+describe("testMiddleware", () => {
+  const UserContext = createContext<string, "user">("user");
+  const auth = createMiddleware((req, _server, next) => {
+    const token = req.headers.get("Authorization");
+    if (!token) throw new HttpError(401);
+    setContext(UserContext, token.replace("Bearer ", ""));
+    return next();
+  });
+
+  test("runs the middleware with a handler sharing its scope", async () => {
+    const { response, nextCalled } = await testMiddleware(auth, "/admin", {
+      init: { headers: { Authorization: "Bearer ada" } },
+      handler: () => new Response(useContext(UserContext)),
+    });
+
+    expect(nextCalled).toBe(true);
+    expect(await response.text()).toBe("ada");
+  });
+
+  test("reports short-circuits and errors", async () => {
+    const block = createMiddleware(() => new Response(null, { status: 403 }));
+    const result = await testMiddleware(block);
+    expect(result.nextCalled).toBe(false);
+    expect(result.response.status).toBe(403);
+
+    await expect(testMiddleware(auth)).rejects.toBeInstanceOf(HttpError);
+  });
+
+  test("applies response hooks and cookies", async () => {
+    const stamp = createMiddleware((_req, _server, next) => {
+      onResponse((res) => {
+        res.headers.set("X-Stamped", "1");
+      });
+      setCookie("visited", "1");
+      return next();
+    });
+    const { response } = await testMiddleware(stamp);
+
+    expect(response.headers.get("X-Stamped")).toBe("1");
+    expect(response.headers.getSetCookie()).toEqual([
+      "visited=1; Path=/; SameSite=Lax",
+    ]);
+
+    const traced = await testMiddleware(requestId(), "/", {
+      init: { headers: { "X-Request-Id": "abc" } },
+    });
+    expect(traced.response.headers.get("X-Request-Id")).toBe("abc");
+  });
+
+  test("passes params and a fake server", async () => {
+    const server = createTestServer({ ip: null });
+    const { response } = await testMiddleware(
+      (req, srv) => Response.json([req.params.id, srv.requestIP(req)]),
+      "/users/1",
+      { params: { id: "1" }, server },
+    );
+
+    expect(await response.json()).toEqual(["1", null]);
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, expect, test } from "bun:test";
+import {
+  createRoute,
+  createRouteGroup,
+  createUrlBuilder,
+  mergeRoutes,
+} from "../src";
+
+const api = createRouteGroup("/api/");
+
+const routes = mergeRoutes(
+  createRoute("/", () => new Response("Home")),
+  createRoute("/files/*", () => new Response("Files")),
+  api("/users/:id", (req) => Response.json({ id: req.params.id })),
+  api("/users/:id/posts/:postId/", () => new Response("Post")),
+);
+
+const urlFor = createUrlBuilder(routes);
+
+describe("createUrlBuilder", () => {
+  test("builds static paths", () => {
+    expect(urlFor("/")).toBe("/");
+  });
+
+  test("fills path params", () => {
+    expect(urlFor("/api/users/:id", { params: { id: 42 } })).toBe(
+      "/api/users/42",
+    );
+    expect(
+      urlFor("/api/users/:id/posts/:postId", {
+        params: { id: "a", postId: 7 },
+      }),
+    ).toBe("/api/users/a/posts/7");
+  });
+
+  test("encodes params", () => {
+    expect(urlFor("/api/users/:id", { params: { id: "a b/c" } })).toBe(
+      "/api/users/a%20b%2Fc",
+    );
+  });
+
+  test("fills wildcards and keeps their slashes", () => {
+    expect(urlFor("/files/*", { params: { "*": "docs/read me.md" } })).toBe(
+      "/files/docs/read%20me.md",
+    );
+  });
+
+  test("encodes query params and hash", () => {
+    expect(
+      urlFor("/api/users/:id", {
+        params: { id: 1 },
+        query: { tab: "posts & more", page: 2, draft: undefined },
+        hash: "top",
+      }),
+    ).toBe("/api/users/1?tab=posts+%26+more&page=2#top");
+
+    expect(urlFor("/", { query: { tag: ["a", "b"], empty: null } })).toBe(
+      "/?tag=a&tag=b",
+    );
+  });
+
+  test("agrees with createRouteGroup prefix normalization", () => {
+    const group = createRouteGroup("//admin//");
+    const adminRoutes = mergeRoutes(
+      group("//dashboard//", () => new Response()),
+    );
+    const adminUrl = createUrlBuilder(adminRoutes);
+
+    expect(Object.keys(adminRoutes)).toEqual(["/admin/dashboard"]);
+    expect(adminUrl("/admin/dashboard")).toBe("/admin/dashboard");
+  });
+
+  test("throws for unknown routes and missing params at runtime", () => {
+    expect(() => (urlFor as any)("/nope")).toThrow(
+      'Route "/nope" is not registered',
+    );
+    expect(() => (urlFor as any)("/api/users/:id", { params: {} })).toThrow(
+      'Missing param "id"',
+    );
+  });
+
+  test("rejects typos and missing params at compile time", () => {
+    // These only exist to be checked by tsc
+    const typeChecks = () => {
+      // @ts-expect-error unknown path
+      urlFor("/api/user/:id", { params: { id: 1 } });
+      // @ts-expect-error missing params
+      urlFor("/api/users/:id");
+      // @ts-expect-error wrong param name
+      urlFor("/api/users/:id", { params: { userId: 1 } });
+      // @ts-expect-error missing wildcard
+      urlFor("/files/*", { params: {} });
+    };
+    expect(typeof typeChecks).toBe("function");
+  });
+});
@@ -0,0 +1,234 @@
+import { describe, expect, test } from "bun:test";
+import {
+  createRoute,
+  type StandardSchemaV1,
+  useContext,
+  useValidated,
+  ValidatedContext,
+  validate,
+  withValidation,
+} from "../src";
+
+// Minimal Standard Schema implementation so tests don't depend on a schema library
+const schema = <T>(
+  check: (value: any) => T | string,
+): StandardSchemaV1<unknown, T> => ({
+  "~standard": {
+    version: 1,
+    vendor: "test",
+    validate: (value) => {
+      const result = check(value);
+      return typeof result === "string"
+        ? { issues: [{ message: result, path: [{ key: "field" }] }] }
+        : { value: result };
+    },
+  },
+});
+
+const IdParams = schema((value: { id?: string }) => {
+  const id = Number(value?.id);
+  return Number.isInteger(id) ? { id } : "id must be an integer";
+});
+
+const SearchQuery = schema((value: { q?: string | string[] }) =>
+  typeof value?.q === "string" ? { q: value.q } : "q is required",
+);
+
+const CreateUser = schema((value: { name?: unknown }) =>
+  typeof value?.name === "string" ? { name: value.name } : "name is required",
+);
+
+const makeRequest = (
+  url: string,
+  init?: RequestInit,
+  params: Record<string, string> = {},
+) => Object.assign(new Request(url, init), { params }) as Bun.BunRequest<any>;
+
+const mockServer = {} as Bun.Server<undefined>;
+
+describe("validate middleware", () => {
+  test("parses params and query before the handler", async () => {
+    const route = createRoute(
+      "/users/:id",
+      () => {
+        const { params, query } = useValidated<{
+          params: typeof IdParams;
+          query: typeof SearchQuery;
+        }>();
+        return Response.json({ id: params.id, q: query.q });
+      },
+      validate({ params: IdParams, query: SearchQuery }),
+    );
+
+    const handler = route["/users/:id"] as any;
+    const res = await handler(
+      makeRequest("http://localhost/users/42?q=abret", undefined, { id: "42" }),
+      mockServer,
+    );
+
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({ id: 42, q: "abret" });
+  });
+
+  test("returns 400 with every issue before the handler runs", async () => {
+    let called = false;
+    const route = createRoute(
+      "/users/:id",
+      () => {
+        called = true;
+        return new Response("OK");
+      },
+      validate({ params: IdParams, query: SearchQuery }),
+    );
+
+    const handler = route["/users/:id"] as any;
+    const res = await handler(
+      makeRequest("http://localhost/users/abc", undefined, { id: "abc" }),
+      mockServer,
+    );
+
+    expect(called).toBe(false);
+    expect(res.status).toBe(400);
+    expect(await res.json()).toEqual({
+      error: "Validation failed",
+      issues: [
+        {
+          location: "params",
+          message: "id must be an integer",
+          path: ["field"],
+        },
+        { location: "query", message: "q is required", path: ["field"] },
+      ],
+    });
+  });
+
+  test("stacked validators keep the values parsed before them", async () => {
+    const route = createRoute(
+      "/users/:id",
+      {
+        POST: withValidation({ body: CreateUser }, () =>
+          Response.json(useContext(ValidatedContext)),
+        ),
+      },
+      validate({ params: IdParams }),
+      validate({ query: SearchQuery, body: CreateUser }),
+    );
+
+    const handlers = route["/users/:id"] as any;
+    const res = await handlers.POST(
+      makeRequest(
+        "http://localhost/users/42?q=abret",
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ name: "Ada" }),
+        },
+        { id: "42" },
+      ),
+      mockServer,
+    );
+
+    // The body is read once and validated by both schemas
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({
+      params: { id: 42 },
+      query: { q: "abret" },
+      body: { name: "Ada" },
+    });
+  });
+
+  test("values are readable with useContext", async () => {
+    const route = createRoute(
+      "/search",
+      () => Response.json(useContext(ValidatedContext)?.query),
+      validate({ query: SearchQuery }),
+    );
+
+    const handler = route["/search"] as any;
+    const res = await handler(
+      makeRequest("http://localhost/search?q=bun"),
+      mockServer,
+    );
+    expect(await res.json()).toEqual({ q: "bun" });
+  });
+});
+
+describe("withValidation", () => {
+  test("validates a single method and passes typed input", async () => {
+    const route = createRoute("/users", {
+      GET: () => new Response("list"),
+      POST: withValidation({ body: CreateUser }, (_req, _server, { body }) => {
+        const name: string = body.name;
+        return Response.json({ name }, { status: 201 });
+      }),
+    });
+
+    const handlers = route["/users"] as any;
+
+    const getRes = await handlers.GET(
+      makeRequest("http://localhost/users"),
+      mockServer,
+    );
+    expect(await getRes.text()).toBe("list");
+
+    const postRes = await handlers.POST(
+      makeRequest("http://localhost/users", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name: "Ada" }),
+      }),
+      mockServer,
+    );
+    expect(postRes.status).toBe(201);
+    expect(await postRes.json()).toEqual({ name: "Ada" });
+  });
+
+  test("parses form bodies", async () => {
+    const handler = withValidation({ body: CreateUser }, () =>
+      Response.json(useValidated<{ body: typeof CreateUser }>().body),
+    );
+
+    const form = new URLSearchParams({ name: "Grace" });
+    const res = await handler(
+      makeRequest("http://localhost/users", { method: "POST", body: form }),
+      mockServer,
+    );
+    expect(await res.json()).toEqual({ name: "Grace" });
+  });
+
+  test("returns 400 for malformed JSON", async () => {
+    const handler = withValidation({ body: CreateUser }, () => {
+      throw new Error("should not run");
+    });
+
+    const res = await handler(
+      makeRequest("http://localhost/users", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: "{not json",
+      }),
+      mockServer,
+    );
+    expect(res.status).toBe(400);
+    expect(await res.json()).toEqual({
+      error: "Validation failed",
+      issues: [
+        { location: "body", message: "Malformed request body", path: [] },
+      ],
+    });
+  });
+
+  test("returns 400 for invalid bodies", async () => {
+    const handler = withValidation({ body: CreateUser }, () => new Response());
+
+    const res = await handler(
+      makeRequest("http://localhost/users", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name: 1 }),
+      }),
+      mockServer,
+    );
+    expect(res.status).toBe(400);
+  });
+});
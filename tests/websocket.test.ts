@@ -0,0 +1,163 @@
+import { describe, expect, expectTypeOf, test } from "bun:test";
+import {
+  createApp,
+  createContext,
+  createMiddleware,
+  createRoute,
+  createWebSocketHandler,
+  createWebSocketRoute,
+  HttpError,
+  mergeRoutes,
+  useContext,
+} from "../src";
+import { setContext } from "../src/store";
+
+const UserContext = createContext<string, "user">("user");
+
+const auth = createMiddleware((req, _server, next) => {
+  const user = new URL(req.url).searchParams.get("user");
+  if (!user) throw new HttpError(401);
+  setContext(UserContext, user);
+  return next();
+});
+
+/**
+ * Connects to a server and collects messages until `count` arrived
+ */
+const connect = (url: string) => {
+  const ws = new WebSocket(url);
+  const messages: string[] = [];
+  let waiting: { count: number; resolve: () => void } | undefined;
+
+  ws.onmessage = (event) => {
+    messages.push(String(event.data));
+    if (waiting && messages.length >= waiting.count) waiting.resolve();
+  };
+
+  const opened = new Promise<void>((resolve, reject) => {
+    ws.onopen = () => resolve();
+    ws.onerror = () => reject(new Error("WebSocket error"));
+  });
+
+  const waitFor = (count: number) =>
+    new Promise<void>((resolve, reject) => {
+      if (messages.length >= count) return resolve();
+      waiting = { count, resolve };
+      setTimeout(() => reject(new Error("Timed out")), 2000);
+    });
+
+  return { ws, messages, opened, waitFor };
+};
+
+describe("createWebSocketRoute", () => {
+  test("runs middleware on upgrade and keeps contexts for socket events", async () => {
+    const closed = Promise.withResolvers<string>();
+
+    const chat = createWebSocketRoute(
+      "/chat/:room",
+      {
+        upgrade: (req) => ({ room: req.params.room, joined: Date.now() }),
+        open: (ws) => {
+          expectTypeOf(ws.data.room).toEqualTypeOf<string>();
+          ws.send(`${useContext(UserContext)} joined ${ws.data.room}`);
+        },
+        message: (ws, message) => {
+          ws.send(`${useContext(UserContext)}: ${message}`);
+        },
+        close: () => closed.resolve(useContext(UserContext) ?? "none"),
+      },
+      auth,
+    );
+
+    const server = Bun.serve({
+      port: 0,
+      ...createApp().add(chat).build(),
+    });
+
+    try {
+      const client = connect(
+        `ws://localhost:${server.port}/chat/general?user=ada`,
+      );
+      await client.opened;
+      await client.waitFor(1);
+      client.ws.send("hello");
+      await client.waitFor(2);
+
+      expect(client.messages).toEqual(["ada joined general", "ada: hello"]);
+
+      client.ws.close();
+      expect(await closed.promise).toBe("ada");
+    } finally {
+      server.stop(true);
+    }
+  });
+
+  test("middleware can refuse the upgrade", async () => {
+    const server = Bun.serve({
+      port: 0,
+      ...createApp()
+        .add(createWebSocketRoute("/ws", { message: () => {} }, auth))
+        .build(),
+    });
+
+    try {
+      const res = await fetch(new URL("/ws", server.url), {
+        headers: { Connection: "Upgrade", Upgrade: "websocket" },
+      });
+      expect(res.status).toBe(401);
+    } finally {
+      server.stop(true);
+    }
+  });
+
+  test("upgrade can answer with a response, plain requests get a 426", async () => {
+    const route = createWebSocketRoute("/ws", {
+      upgrade: (req) =>
+        req.headers.has("X-Deny")
+          ? new Response("denied", { status: 403 })
+          : {},
+    });
+
+    const server = Bun.serve({ port: 0, ...createApp().add(route).build() });
+
+    try {
+      const denied = await fetch(new URL("/ws", server.url), {
+        headers: { "X-Deny": "1" },
+      });
+      expect(denied.status).toBe(403);
+
+      const plain = await fetch(new URL("/ws", server.url));
+      expect(plain.status).toBe(426);
+      expect(plain.headers.get("Upgrade")).toBe("websocket");
+    } finally {
+      server.stop(true);
+    }
+  });
+
+  test("sockets upgraded elsewhere go to the fallback handler", async () => {
+    const server = Bun.serve({
+      port: 0,
+      routes: mergeRoutes(
+        createRoute("/raw", (req, srv) => {
+          srv.upgrade(req);
+          return new Response(null, { status: 101 });
+        }),
+      ),
+      websocket: createWebSocketHandler({
+        open: (ws) => {
+          ws.send("fallback");
+        },
+        message: () => {},
+      }),
+    });
+
+    try {
+      const client = connect(`ws://localhost:${server.port}/raw`);
+      await client.waitFor(1);
+      expect(client.messages).toEqual(["fallback"]);
+      client.ws.close();
+    } finally {
+      server.stop(true);
+    }
+  });
+});